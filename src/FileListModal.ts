@@ -1,6 +1,7 @@
 import { App, SuggestModal, Notice, MarkdownView, TFile } from 'obsidian';
 import SupernotePlugin from './main';
 import { SupernotePluginSettings, IP_VALIDATION_PATTERN } from 'settings';
+import { uploadToSupernote } from './batch-file-manager';
 
 interface SupernoteFile {
     name: string;
@@ -198,15 +199,11 @@ export class UploadListModal extends FileListModal {
                     return;
                 }
 
-                const uploadURL = `http://${this.settings.directConnectIP}:8089${this.currentPath}`;
-
-                // Create FormData with file payload
                 // Generate filename with .txt extension for markdown files
                 const uploadFilename = this.currentFile.extension === "md"
                     ? `${this.currentFile.basename}.txt`  // Change extension to .txt
                     : this.currentFile.name;
 
-                const formData = new FormData();
                 const fileContent = this.currentFile.extension === "md"
                     ? await this.app.vault.read(this.currentFile)
                     : await this.app.vault.readBinary(this.currentFile);
@@ -215,19 +212,7 @@ export class UploadListModal extends FileListModal {
                     ? 'text/plain'  // Use text/plain for compatibility
                     : 'application/octet-stream';
 
-                // Use modified filename in the FormData
-                formData.append('file', new Blob([fileContent], { type: mimeType }), uploadFilename);
-
-                const response = await fetch(uploadURL, {
-                    method: "POST",
-                    mode: 'cors',
-                    body: formData
-                });
-
-                if (!response.ok) {
-                    const errorText = await response.text();
-                    throw new Error(`Upload failed: ${errorText}`);
-                }
+                await uploadToSupernote(this.settings.directConnectIP, this.currentPath, uploadFilename, fileContent, mimeType);
 
                 new Notice(`Successfully uploaded ${uploadFilename} to Supernote`);
                 this.close();
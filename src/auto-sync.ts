@@ -0,0 +1,154 @@
+import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { SupernotePluginSettings } from './settings';
+import { SyncEngine, SyncResult } from './sync-engine';
+import type { VaultWriter } from './main';
+
+/** Number of log lines kept in the plugin folder. */
+const MAX_LOG_LINES = 500;
+
+/**
+ * Pulls new or changed .note files from the device whenever it shows up on
+ * the network, and optionally exports them right away.
+ */
+export class AutoSyncService {
+    private app: App;
+    private settings: SupernotePluginSettings;
+    private syncEngine: SyncEngine;
+    private vaultWriter: VaultWriter;
+    private logPath: string;
+    private lastRun = 0;
+    private controller: AbortController | null = null;
+    private pendingLog: string[] = [];
+
+    constructor(app: App, settings: SupernotePluginSettings, syncEngine: SyncEngine, vaultWriter: VaultWriter, logPath: string) {
+        this.app = app;
+        this.settings = settings;
+        this.syncEngine = syncEngine;
+        this.vaultWriter = vaultWriter;
+        this.logPath = normalizePath(logPath);
+    }
+
+    isRunning(): boolean {
+        return this.controller !== null;
+    }
+
+    /**
+     * Called when the device goes from disconnected to connected.
+     */
+    async handleDeviceConnected(): Promise<void> {
+        if (!this.settings.autoSyncOnConnect || this.settings.syncFolderPairs.length === 0) {
+            return;
+        }
+
+        const minInterval = this.settings.autoSyncMinIntervalMinutes * 60 * 1000;
+        const elapsed = Date.now() - this.lastRun;
+        if (elapsed < minInterval) {
+            this.log(`Device connected, skipping pull (last run ${Math.round(elapsed / 1000)}s ago)`);
+            await this.flushLog();
+            return;
+        }
+
+        await this.run();
+    }
+
+    /**
+     * Pull new or changed .note files now, ignoring the throttle.
+     */
+    async run(): Promise<SyncResult | null> {
+        if (this.controller || this.syncEngine.isRunning()) {
+            this.log('Pull skipped, a sync is already in progress');
+            await this.flushLog();
+            return null;
+        }
+
+        this.lastRun = Date.now();
+        this.controller = new AbortController();
+        const signal = this.controller.signal;
+        this.log('Device connected, pulling new or changed notes');
+
+        try {
+            const result = await this.syncEngine.syncAll({ direction: 'pull', extensions: ['note'], signal });
+            result.downloaded.forEach(path => this.log(`Downloaded ${path}`));
+            result.conflicts.forEach(path => this.log(`Conflict, left untouched: ${path}`));
+            result.failed.forEach(failure => {
+                this.log(`Failed ${failure.path}: ${failure.error}`);
+                console.error(`Automatic Supernote pull failed for ${failure.path}:`, failure.error);
+            });
+
+            await this.exportDownloaded(result.downloaded, signal);
+
+            this.log(`Pull finished: ${result.downloaded.length} downloaded, ${result.failed.length} failed`);
+            if (result.downloaded.length > 0) {
+                new Notice(`Supernote: pulled ${result.downloaded.length} note${result.downloaded.length > 1 ? 's' : ''}`);
+            }
+            return result;
+        } catch (error) {
+            if (signal.aborted) {
+                this.log('Pull cancelled');
+                new Notice('Supernote sync cancelled');
+            } else {
+                this.log(`Pull failed: ${error.message}`);
+                console.error('Automatic Supernote pull failed:', error);
+            }
+            return null;
+        } finally {
+            this.controller = null;
+            await this.flushLog();
+        }
+    }
+
+    /**
+     * Cancel a running pull. Files already transferred are kept.
+     */
+    cancel(): boolean {
+        if (!this.controller) {
+            return false;
+        }
+        this.controller.abort();
+        return true;
+    }
+
+    private async exportDownloaded(paths: string[], signal: AbortSignal): Promise<void> {
+        const format = this.settings.autoSyncExport;
+        if (format === 'none') return;
+
+        for (const path of paths) {
+            if (signal.aborted) {
+                throw new Error('Sync cancelled');
+            }
+            const file = this.app.vault.getFileByPath(path);
+            if (!(file instanceof TFile) || file.extension !== 'note') continue;
+
+            try {
+                if (format === 'markdown') {
+                    await this.vaultWriter.attachMarkdownFile(file);
+                } else if (format === 'png') {
+                    await this.vaultWriter.attachNoteFiles(file);
+                } else if (format === 'pdf') {
+                    await this.vaultWriter.exportToPDF(file);
+                }
+                this.log(`Exported ${path} as ${format}`);
+            } catch (error) {
+                this.log(`Export of ${path} failed: ${error.message}`);
+                console.error(`Failed to export ${path}:`, error);
+            }
+        }
+    }
+
+    private log(message: string): void {
+        this.pendingLog.push(`${new Date().toISOString()} ${message}`);
+    }
+
+    private async flushLog(): Promise<void> {
+        if (this.pendingLog.length === 0) return;
+        try {
+            const adapter = this.app.vault.adapter;
+            const existing = await adapter.exists(this.logPath) ? (await adapter.read(this.logPath)).split('\n').filter(Boolean) : [];
+            const lines = existing.concat(this.pendingLog).slice(-MAX_LOG_LINES);
+            await adapter.write(this.logPath, lines.join('\n') + '\n');
+            this.pendingLog = [];
+        } catch (error) {
+            console.error('Failed to write sync log:', error);
+        }
+    }
+}
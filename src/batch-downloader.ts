@@ -1,14 +1,26 @@
-import { App, Notice, TFile, normalizePath } from 'obsidian';
+import { App, MarkdownView, Notice, SuggestModal, TFile, normalizePath } from 'obsidian';
 import { SupernoteFile } from './batch-file-manager';
 // @ts-ignore
 import { SupernoteX } from 'supernote';
-import { VaultWriter, ImageConverter } from './main';
+import { jsPDF } from 'jspdf';
+import { VaultWriter, ImageConverter, PageStage, RenderPriority, exportRenderOptions, imageExtension } from './main';
+import { ProgressNotice } from './progress-bar';
+
+/** Page order for combined PDFs. */
+export type BatchPdfOrder = 'selection' | 'name' | 'date';
 
 export interface DownloadProgress {
     current: number;
     total: number;
     fileName: string;
     status: 'downloading' | 'converting' | 'saving' | 'complete' | 'error';
+    /** Pages of the current file rendered so far, while converting. */
+    pagesDone?: number;
+    /** Number of pages in the current file, once known. */
+    pageCount?: number;
+    /** Page the worker reported a step for, and the step it is at. */
+    page?: number;
+    stage?: PageStage;
 }
 
 export interface BatchDownloadResult {
@@ -141,7 +153,7 @@ export class BatchDownloader {
             status: 'saving'
         });
 
-        await this.saveFileToAttachments(file.name, new Uint8Array(arrayBuffer));
+        await this.saveFileToAttachments(file.name, arrayBuffer);
 
         onProgress?.({
             current,
@@ -175,10 +187,23 @@ export class BatchDownloader {
             return;
         }
 
+        // Each file counts for one unit of the bar, split across its pages
+        const fileProgress = new Map<number, number>();
+        const progressNotice = new ProgressNotice(`Converting ${files.length} file${files.length > 1 ? 's' : ''}…`);
+
         try {
             const result = await this.convertFiles(files, format, (progress) => {
-                new Notice(`Converting: ${progress.fileName} (${progress.current}/${progress.total})`, 2000);
+                if (progress.status === 'complete' || progress.status === 'error') {
+                    fileProgress.set(progress.current, 1);
+                } else if (progress.pageCount) {
+                    fileProgress.set(progress.current, (progress.pagesDone ?? 0) / progress.pageCount);
+                }
+                const done = Array.from(fileProgress.values()).reduce((sum, value) => sum + value, 0);
+                const pages = progress.pageCount ? `, page ${progress.pagesDone ?? 0}/${progress.pageCount}` : '';
+                const step = progress.stage ? ` ${progress.stage} page ${progress.page}…` : '';
+                progressNotice.update(done, files.length, `Converting ${progress.fileName} (${progress.current}/${progress.total}${pages})${step}`);
             });
+            progressNotice.hide();
 
             const successCount = result.successful.length;
             const failCount = result.failed.length;
@@ -193,6 +218,7 @@ export class BatchDownloader {
             }
 
         } catch (error) {
+            progressNotice.hide();
             new Notice(`❌ Conversion failed: ${error.message}`);
             console.error('Batch conversion error:', error);
         }
@@ -224,6 +250,12 @@ export class BatchDownloader {
                     await this.convertSingleFile(file, format, overallIndex + 1, files.length, onProgress);
                     result.successful.push(file);
                 } catch (error) {
+                    onProgress?.({
+                        current: overallIndex + 1,
+                        total: files.length,
+                        fileName: file.name,
+                        status: 'error'
+                    });
                     result.failed.push({ file, error: error.message });
                 }
             });
@@ -287,27 +319,49 @@ export class BatchDownloader {
             console.log(`Processing ${file.name}: ${supernote.pages.length} pages found`);
 
             const baseName = file.name.replace(/\.note$/, '');
+            const pageCount = supernote.pages.length;
+            let pagesDone = 0;
+            let pagesFailed = 0;
+            const reportPage = () => {
+                pagesDone++;
+                onProgress?.({ current, total, fileName: file.name, status: 'converting', pagesDone, pageCount });
+            };
+            const convertOptions = {
+                priority: RenderPriority.Background,
+                render: exportRenderOptions(this.settings),
+                onPage: reportPage,
+                onProgress: (page: number, stage: PageStage) => {
+                    onProgress?.({ current, total, fileName: file.name, status: 'converting', pagesDone, pageCount, page, stage });
+                },
+                onPageError: () => {
+                    pagesFailed++;
+                    reportPage();
+                }
+            };
+            onProgress?.({ current, total, fileName: file.name, status: 'converting', pagesDone, pageCount });
 
             if (format === 'png') {
                 // For PNG: Use the exact same approach as the working VaultWriter
                 const converter = new ImageConverter();
-                let images: string[] = [];
+                let images: (ArrayBuffer | null)[] = [];
                 try {
-                    images = await converter.convertToImages(supernote, undefined, uint8Array);
+                    images = await converter.convertToImages(supernote, undefined, uint8Array, convertOptions);
                 } catch (conversionError) {
                     throw new Error(`Image conversion failed: ${conversionError.message}`);
-                } finally {
-                    converter.terminate();
                 }
 
                 if (!images || images.length === 0) {
                     throw new Error('No images generated during conversion');
                 }
 
-                // Save each image using the same method as VaultWriter
+                // Save each image using the same method as VaultWriter. Failed
+                // pages are skipped but keep their number in the file names.
                 for (let i = 0; i < images.length; i++) {
+                    const image = images[i];
+                    if (image === null) continue;
+
                     const pageNumber = images.length > 1 ? `-${i}` : '';
-                    const fileName = `${baseName}${pageNumber}.png`;
+                    const fileName = `${baseName}${pageNumber}.${imageExtension(convertOptions.render.output)}`;
 
                     onProgress?.({
                         current,
@@ -317,34 +371,49 @@ export class BatchDownloader {
                     });
 
                     try {
-                        const pngData = this.dataUrlToBuffer(images[i]);
-                        await this.saveFileToAttachments(fileName, pngData);
+                        await this.saveFileToAttachments(fileName, image);
                     } catch (saveError) {
                         throw new Error(`Failed to save image ${i + 1}: ${saveError.message}`);
                     }
                 }
 
-                console.log(`Generated ${images.length} PNG files for ${file.name}`);
+                console.log(`Generated ${images.length - pagesFailed} PNG files for ${file.name}`);
             } else if (format === 'pdf') {
                 // For PDF: use the EXACT same working code from VaultWriter
-                onProgress?.({
-                    current,
-                    total,
-                    fileName: file.name,
-                    status: 'saving'
-                });
-
                 try {
-                    const pdfData = await this.vaultWriter.generatePDFFromSupernote(supernote, uint8Array);
+                    const pdfData = await this.vaultWriter.generatePDFFromSupernote(supernote, uint8Array, convertOptions);
+                    onProgress?.({
+                        current,
+                        total,
+                        fileName: file.name,
+                        status: 'saving'
+                    });
                     const fileName = `${baseName}.pdf`;
-                    await this.saveFileToAttachments(fileName, new Uint8Array(pdfData));
+                    await this.saveFileToAttachments(fileName, pdfData);
                 } catch (pdfError) {
                     throw new Error(`PDF generation failed: ${pdfError.message}`);
                 }
+            } else if (format === 'svg') {
+                // Vector pages from the stroke data, built in the workers
+                const converter = new ImageConverter();
+                for (let i = 0; i < pageCount; i++) {
+                    const svg = await converter.convertPageToSvg(i + 1, uint8Array, convertOptions);
+                    const pageNumber = pageCount > 1 ? `-${i}` : '';
+                    onProgress?.({
+                        current,
+                        total,
+                        fileName: `${file.name} (${i + 1}/${pageCount})`,
+                        status: 'saving'
+                    });
+                    await this.saveFileToAttachments(`${baseName}${pageNumber}.svg`, new TextEncoder().encode(svg));
+                }
             } else {
                 throw new Error(`Unsupported format: ${format}`);
             }
 
+            if (pagesFailed > 0) {
+                new Notice(`⚠️ ${pagesFailed} page${pagesFailed > 1 ? 's' : ''} of ${file.name} could not be rendered`);
+            }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown conversion error';
             console.error(`Conversion failed for ${file.name}:`, error);
@@ -359,26 +428,19 @@ export class BatchDownloader {
         });
     }
 
-    private dataUrlToBuffer(dataUrl: string): Uint8Array {
-        // Same function as the original author uses in main.ts
-        const base64 = dataUrl.split(',')[1];
-        const binaryString = atob(base64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        return bytes;
-    }
-
-    private async saveFileToAttachments(fileName: string, fileData: Uint8Array): Promise<void> {
+    private async saveFileToAttachments(fileName: string, fileData: ArrayBuffer | Uint8Array): Promise<void> {
         try {
             // Use Obsidian's file manager to get the proper attachment path
             const attachmentPath = await this.app.fileManager.getAvailablePathForAttachment(fileName);
 
-            // Convert Uint8Array to ArrayBuffer
-            const arrayBuffer = new ArrayBuffer(fileData.length);
-            const view = new Uint8Array(arrayBuffer);
-            view.set(fileData);
+            // Copy views into an ArrayBuffer of their own, buffers are written as is
+            let arrayBuffer: ArrayBuffer;
+            if (fileData instanceof ArrayBuffer) {
+                arrayBuffer = fileData;
+            } else {
+                arrayBuffer = new ArrayBuffer(fileData.length);
+                new Uint8Array(arrayBuffer).set(fileData);
+            }
 
             // Save the file using Obsidian's vault API
             await this.app.vault.createBinary(attachmentPath, arrayBuffer);
@@ -398,9 +460,114 @@ export class BatchDownloader {
         await this.convertAndDownload(files, 'png');
     }
 
-    // Keep the old method for backward compatibility but rename it
-    async createBatchPDF(files: SupernoteFile[]): Promise<void> {
-        new Notice('Creating combined PDF is not implemented yet. Use "Convert to Individual PDFs" instead.');
+    /**
+     * Render every selected note into a single PDF with one outline entry per
+     * note, then link it from the active note.
+     */
+    async createBatchPDF(files: SupernoteFile[], order: BatchPdfOrder = 'selection'): Promise<TFile | null> {
+        const notes = this.sortFiles(files.filter(file => file.extension === 'note'), order);
+        if (notes.length === 0) {
+            new Notice('No .note files selected');
+            return null;
+        }
+
+        let pdf: jsPDF | null = null;
+        const failed: { file: SupernoteFile; error: string }[] = [];
+        const converter = new ImageConverter();
+        const progressNotice = new ProgressNotice(`Combining ${notes.length} notes…`);
+
+        for (let i = 0; i < notes.length; i++) {
+            const file = notes[i];
+            progressNotice.update(i, notes.length, `Combining ${file.name} (${i + 1}/${notes.length})`);
+
+            try {
+                const buffer = await this.fetchNote(file);
+                const supernote = new SupernoteX(buffer);
+                if (!supernote.pages || supernote.pages.length === 0) {
+                    throw new Error('SuperNote file contains no pages');
+                }
+
+                const pageCount = supernote.pages.length;
+                let pagesDone = 0;
+                const reportPage = () => {
+                    pagesDone++;
+                    progressNotice.update(i + pagesDone / pageCount, notes.length,
+                        `Combining ${file.name} (${i + 1}/${notes.length}, page ${pagesDone}/${pageCount})`);
+                };
+                const render = exportRenderOptions(this.settings);
+                const images = await converter.convertToImages(supernote, undefined, buffer, {
+                    priority: RenderPriority.Background,
+                    render,
+                    onPage: reportPage,
+                    onPageError: reportPage
+                });
+                if (images.length === 0) {
+                    throw new Error('No images generated during conversion');
+                }
+
+                const startOnNewPage = pdf !== null;
+                if (!pdf) {
+                    pdf = new jsPDF({
+                        orientation: 'portrait',
+                        unit: 'px',
+                        format: [supernote.pageWidth, supernote.pageHeight]
+                    });
+                }
+
+                const firstPage = startOnNewPage ? pdf.getNumberOfPages() + 1 : 1;
+                const outlineParent = pdf.outline.add(null, file.name.replace(/\.note$/, ''), { pageNumber: firstPage });
+                this.vaultWriter.appendPagesToPDF(pdf, supernote, images, {
+                    startOnNewPage,
+                    buffer,
+                    outlineParent,
+                    imageFormat: render.output?.format
+                });
+            } catch (error) {
+                console.error(`Failed to add ${file.name} to combined PDF:`, error);
+                failed.push({ file, error: error.message });
+            }
+        }
+        progressNotice.hide();
+
+        if (!pdf) {
+            new Notice('❌ Failed to create combined PDF');
+            return null;
+        }
+
+        const date = new Date().toISOString().slice(0, 10);
+        const filename = await this.app.fileManager.getAvailablePathForAttachment(`Supernote notes ${date}.pdf`);
+        const tfile = await this.app.vault.createBinary(filename, pdf.output('arraybuffer'));
+
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (view) {
+            const link = this.app.fileManager.generateMarkdownLink(tfile, view.file?.path ?? filename);
+            view.editor.replaceSelection(link);
+        }
+
+        const added = notes.length - failed.length;
+        new Notice(`✅ Combined ${added} note${added > 1 ? 's' : ''} into ${tfile.name}`);
+        if (failed.length > 0) {
+            new Notice(`❌ Failed to add ${failed.length} note${failed.length > 1 ? 's' : ''}`);
+        }
+        return tfile;
+    }
+
+    private sortFiles(files: SupernoteFile[], order: BatchPdfOrder): SupernoteFile[] {
+        const sorted = [...files];
+        if (order === 'name') {
+            sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+        } else if (order === 'date') {
+            sorted.sort((a, b) => a.date.localeCompare(b.date));
+        }
+        return sorted;
+    }
+
+    private async fetchNote(file: SupernoteFile): Promise<Uint8Array> {
+        const response = await fetch(`http://${this.settings.directConnectIP}:8089${file.uri}`);
+        if (!response.ok) {
+            throw new Error(`Failed to download ${file.name}: ${response.statusText}`);
+        }
+        return new Uint8Array(await response.arrayBuffer());
     }
 
     // Rename the old method to be clearer
@@ -428,4 +595,34 @@ export class BatchDownloader {
             errors
         };
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Asks for the page order before combining notes into one PDF.
+ */
+export class BatchPdfOrderModal extends SuggestModal<{ order: BatchPdfOrder; label: string }> {
+    private onChoose: (order: BatchPdfOrder) => void;
+
+    constructor(app: App, onChoose: (order: BatchPdfOrder) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Order notes in the combined PDF by...');
+    }
+
+    getSuggestions(query: string): { order: BatchPdfOrder; label: string }[] {
+        const options: { order: BatchPdfOrder; label: string }[] = [
+            { order: 'selection', label: 'Selection order' },
+            { order: 'name', label: 'Name' },
+            { order: 'date', label: 'Date (oldest first)' },
+        ];
+        return options.filter(option => option.label.toLowerCase().includes(query.toLowerCase()));
+    }
+
+    renderSuggestion(option: { order: BatchPdfOrder; label: string }, el: HTMLElement) {
+        el.createDiv({ text: option.label });
+    }
+
+    onChooseSuggestion(option: { order: BatchPdfOrder; label: string }) {
+        this.onChoose(option.order);
+    }
+}
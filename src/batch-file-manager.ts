@@ -18,6 +18,32 @@ export interface SupernoteResponse {
     usedMemory: number;
 }
 
+/**
+ * Upload a file to a directory on the device through the "Browse & Access"
+ * POST endpoint.
+ */
+export async function uploadToSupernote(
+    directConnectIP: string,
+    directory: string,
+    fileName: string,
+    content: string | ArrayBuffer,
+    mimeType: string
+): Promise<void> {
+    const formData = new FormData();
+    formData.append('file', new Blob([content], { type: mimeType }), fileName);
+
+    const response = await fetch(`http://${directConnectIP}:8089${directory}`, {
+        method: "POST",
+        mode: 'cors',
+        body: formData
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Upload failed: ${errorText}`);
+    }
+}
+
 export class BatchFileManager {
     private selectedFiles: Set<SupernoteFile> = new Set();
     private currentPath: string = '/';
@@ -78,19 +104,7 @@ export class BatchFileManager {
         }
 
         try {
-            const response = await fetch(`http://${this.settings.directConnectIP}:8089${this.currentPath}`);
-            if (!response.ok) {
-                throw new Error(`Failed to fetch file list: ${response.statusText}`);
-            }
-            const html = await response.text();
-
-            const match = html.match(/const json = '(.+?)'/);
-            if (!match) {
-                throw new Error("Could not find file list data");
-            }
-
-            const data: SupernoteResponse = JSON.parse(match[1]);
-            this.currentFiles = data.fileList;
+            this.currentFiles = await this.fetchDirectory(this.currentPath);
             return this.currentFiles;
         } catch (err) {
             new Notice(`Failed to load files: ${err.message}`);
@@ -98,6 +112,41 @@ export class BatchFileManager {
         }
     }
 
+    /**
+     * Fetch the listing of a device directory without touching the current
+     * path or selection. Unlike loadFiles, errors are thrown to the caller.
+     */
+    async fetchDirectory(path: string): Promise<SupernoteFile[]> {
+        const response = await fetch(`http://${this.settings.directConnectIP}:8089${path}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch file list: ${response.statusText}`);
+        }
+        const html = await response.text();
+
+        const match = html.match(/const json = '(.+?)'/);
+        if (!match) {
+            throw new Error("Could not find file list data");
+        }
+
+        const data: SupernoteResponse = JSON.parse(match[1]);
+        return data.fileList;
+    }
+
+    /**
+     * Quietly check whether the device answers on its file listing endpoint.
+     */
+    async checkConnection(): Promise<boolean> {
+        if (!this.settings.directConnectIP) {
+            return false;
+        }
+        try {
+            await this.fetchDirectory('/');
+            return true;
+        } catch (err) {
+            return false;
+        }
+    }
+
     getCurrentPath(): string {
         return this.currentPath;
     }
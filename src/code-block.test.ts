@@ -0,0 +1,40 @@
+import { CodeBlockError, parseCodeBlock } from './code-block';
+
+describe('supernote code block', () => {
+    it('should read every option', () => {
+        const block = parseCodeBlock([
+            'source: Meetings/Weekly.note',
+            'pages: 1-2',
+            'crop: 0,0,1404,600',
+            'layers: ink',
+            'width: 400',
+            'invert: false',
+            'show-text: yes',
+        ].join('\n'));
+
+        expect(block).toEqual({
+            source: 'Meetings/Weekly.note',
+            pages: '1-2',
+            crop: '0,0,1404,600',
+            layers: 'ink',
+            width: 400,
+            invert: false,
+            showText: true,
+        });
+    });
+
+    it('should accept device paths, quotes, comments and blank lines', () => {
+        const block = parseCodeBlock('# Weekly review\n\nsource: "/Note/Work/Weekly.note"\n');
+
+        expect(block).toEqual({ source: '/Note/Work/Weekly.note' });
+    });
+
+    it('should reject missing sources and bad values', () => {
+        expect(() => parseCodeBlock('pages: 1')).toThrow('Missing "source: path/to/note.note"');
+        expect(() => parseCodeBlock('source: a.note\nlayers: top')).toThrow(CodeBlockError);
+        expect(() => parseCodeBlock('source: a.note\nwidth: wide')).toThrow(CodeBlockError);
+        expect(() => parseCodeBlock('source: a.note\ninvert: maybe')).toThrow('invert must be true or false, not "maybe"');
+        expect(() => parseCodeBlock('source: a.note\ncolour: red')).toThrow('Unknown option "colour"');
+        expect(() => parseCodeBlock('source a.note')).toThrow(CodeBlockError);
+    });
+});
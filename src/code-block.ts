@@ -0,0 +1,99 @@
+import type { NoteEmbedOptions } from './note-embed';
+import type { SupernotePluginSettings } from './settings';
+
+/** Options of a ```supernote code block. */
+export interface SupernoteCodeBlock extends Omit<NoteEmbedOptions, 'render'> {
+    /** Vault path or link text of the note, or its path on the device. */
+    source: string;
+    /** Layers to draw, like the "Export layers" setting. */
+    layers?: SupernotePluginSettings['exportLayers'];
+}
+
+/** A code block that cannot be shown, e.g. one without a source. */
+export class CodeBlockError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CodeBlockError';
+    }
+}
+
+const LAYER_VALUES = ['all', 'ink', 'main'];
+
+function parseBoolean(key: string, value: string): boolean {
+    const lower = value.toLowerCase();
+    if (['true', 'yes', 'on'].includes(lower)) return true;
+    if (['false', 'no', 'off'].includes(lower)) return false;
+    throw new CodeBlockError(`${key} must be true or false, not "${value}"`);
+}
+
+/**
+ * Read the `key: value` lines of a ```supernote code block:
+ *
+ * ```supernote
+ * source: Meetings/Weekly.note
+ * pages: 1-2
+ * layers: ink
+ * width: 400
+ * invert: false
+ * show-text: true
+ * ```
+ *
+ * `crop: x,y,width,height` shows part of each page. Blank lines and lines
+ * starting with # are ignored.
+ */
+export function parseCodeBlock(source: string): SupernoteCodeBlock {
+    const block: Partial<SupernoteCodeBlock> = {};
+    for (const line of source.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) continue;
+
+        const separator = trimmed.indexOf(':');
+        if (separator === -1) {
+            throw new CodeBlockError(`Expected "key: value", got "${trimmed}"`);
+        }
+        const key = trimmed.substring(0, separator).trim().toLowerCase();
+        const value = trimmed.substring(separator + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+
+        switch (key) {
+            case 'source':
+            case 'file':
+                block.source = value;
+                break;
+            case 'pages':
+            case 'page':
+                block.pages = value;
+                break;
+            case 'crop':
+                block.crop = value;
+                break;
+            case 'layers':
+                if (!LAYER_VALUES.includes(value)) {
+                    throw new CodeBlockError(`layers must be one of ${LAYER_VALUES.join(', ')}, not "${value}"`);
+                }
+                block.layers = value as SupernoteCodeBlock['layers'];
+                break;
+            case 'width': {
+                const width = parseInt(value, 10);
+                if (!(width > 0)) {
+                    throw new CodeBlockError(`width must be a number of pixels, not "${value}"`);
+                }
+                block.width = width;
+                break;
+            }
+            case 'invert':
+                block.invert = parseBoolean(key, value);
+                break;
+            case 'show-text':
+            case 'showtext':
+                block.showText = parseBoolean(key, value);
+                break;
+            default:
+                throw new CodeBlockError(`Unknown option "${key}"`);
+        }
+    }
+
+    if (!block.source) {
+        throw new CodeBlockError('Missing "source: path/to/note.note"');
+    }
+    return block as SupernoteCodeBlock;
+}
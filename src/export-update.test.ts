@@ -0,0 +1,56 @@
+import { GENERATED_BEGIN, GENERATED_END, hasGenerated, mergeFrontmatter, pageMarker, readPageMarkers, replaceGenerated, wrapGenerated } from './export-update';
+
+describe('export update', () => {
+    const generated = wrapGenerated(
+        `${pageMarker({ page: 1, hash: 'abc123', image: 'Attachments/My note-0.png' })}\n## Page 1\n` +
+        `${pageMarker({ page: 2, hash: 'def456' })}\n## Page 2\n`
+    );
+
+    it('should read back the page markers of the generated region', () => {
+        const markers = readPageMarkers(`# Notes\n\n${generated}`);
+
+        expect(markers.size).toBe(2);
+        expect(markers.get(1)).toEqual({ page: 1, hash: 'abc123', image: 'Attachments/My note-0.png' });
+        expect(markers.get(2)).toEqual({ page: 2, hash: 'def456', image: undefined });
+    });
+
+    it('should ignore markers outside the generated region', () => {
+        const content = `${pageMarker({ page: 3, hash: 'fff' })}\n${generated}`;
+
+        expect(readPageMarkers(content).has(3)).toBe(false);
+    });
+
+    it('should keep user content around the generated region', () => {
+        const content = `---\ntags: [a]\n---\nMy summary\n\n${generated}\nMy follow-ups\n`;
+
+        const updated = replaceGenerated(content, '## Page 1\nNew text');
+
+        expect(updated).toBe(`---\ntags: [a]\n---\nMy summary\n\n${GENERATED_BEGIN}\n## Page 1\nNew text\n${GENERATED_END}\n\nMy follow-ups\n`);
+    });
+
+    it('should not replace anything without a complete region', () => {
+        expect(replaceGenerated('Just notes', 'x')).toBeNull();
+        expect(replaceGenerated(`${GENERATED_BEGIN}\nunfinished`, 'x')).toBeNull();
+        expect(hasGenerated(generated)).toBe(true);
+    });
+
+    it('should only update the plugin properties of the frontmatter', () => {
+        const frontmatter: Record<string, unknown> = {
+            tags: ['reading', 'work'],
+            'supernote-pages': 3,
+            'supernote-device-path': 'Note/old.note',
+            created: '2024-01-01',
+            rating: 5,
+        };
+
+        mergeFrontmatter(frontmatter, { 'supernote-pages': 4, created: '2024-02-02', modified: '2024-03-03', tags: ['work', 'Project'] });
+
+        expect(frontmatter).toEqual({
+            tags: ['reading', 'work', 'Project'],
+            'supernote-pages': 4,
+            created: '2024-01-01',
+            modified: '2024-03-03',
+            rating: 5,
+        });
+    });
+});
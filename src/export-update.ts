@@ -0,0 +1,135 @@
+import { SupernoteX } from 'supernote';
+
+/** Start of the part of a Markdown export that is regenerated on update. */
+export const GENERATED_BEGIN = '<!-- supernote:begin -->';
+/** End of the generated part; anything after it belongs to the user. */
+export const GENERATED_END = '<!-- supernote:end -->';
+
+/** What an export recorded about a page, kept in a comment before the page. */
+export interface PageMarker {
+    /** Page number, starting at 1. */
+    page: number;
+    /** Fingerprint of the page contents and the options it was exported with. */
+    hash: string;
+    /** Vault path of the page image, if one was exported. */
+    image?: string;
+}
+
+const PAGE_MARKER_PATTERN = /<!-- supernote:page (\d+) hash=(\w+)(?: image=(\S+))? -->/g;
+
+export function pageMarker(marker: PageMarker): string {
+    const image = marker.image ? ` image=${encodeURIComponent(marker.image)}` : '';
+    return `<!-- supernote:page ${marker.page} hash=${marker.hash}${image} -->`;
+}
+
+/**
+ * Wrap generated Markdown in the region markers.
+ */
+export function wrapGenerated(generated: string): string {
+    const body = generated.endsWith('\n') ? generated : `${generated}\n`;
+    return `${GENERATED_BEGIN}\n${body}${GENERATED_END}\n`;
+}
+
+function findGenerated(content: string): { start: number; end: number } | null {
+    const start = content.indexOf(GENERATED_BEGIN);
+    if (start === -1) return null;
+    const endMarker = content.indexOf(GENERATED_END, start + GENERATED_BEGIN.length);
+    if (endMarker === -1) return null;
+
+    let end = endMarker + GENERATED_END.length;
+    if (content[end] === '\n') end++;
+    return { start, end };
+}
+
+export function hasGenerated(content: string): boolean {
+    return findGenerated(content) !== null;
+}
+
+/**
+ * Page markers of the generated region, keyed by page number.
+ */
+export function readPageMarkers(content: string): Map<number, PageMarker> {
+    const markers = new Map<number, PageMarker>();
+    const region = findGenerated(content);
+    if (!region) return markers;
+
+    const generated = content.substring(region.start, region.end);
+    let match: RegExpExecArray | null;
+    PAGE_MARKER_PATTERN.lastIndex = 0;
+    while ((match = PAGE_MARKER_PATTERN.exec(generated)) !== null) {
+        const page = parseInt(match[1], 10);
+        markers.set(page, { page, hash: match[2], image: match[3] ? decodeURIComponent(match[3]) : undefined });
+    }
+    return markers;
+}
+
+/**
+ * Swap the generated region for a new one, keeping everything the user wrote
+ * before and after it. Returns null when the content has no generated region.
+ */
+export function replaceGenerated(content: string, generated: string): string | null {
+    const region = findGenerated(content);
+    if (!region) return null;
+    return content.substring(0, region.start) + wrapGenerated(generated) + content.substring(region.end);
+}
+
+/** Prefix of the frontmatter properties the plugin owns. */
+const PLUGIN_PROPERTY_PREFIX = 'supernote-';
+
+function tagList(tags: unknown): string[] {
+    if (Array.isArray(tags)) return tags.map(String);
+    if (typeof tags === 'string') return tags.split(/[,\s]+/).filter(tag => tag);
+    return [];
+}
+
+/**
+ * Bring the frontmatter of an earlier export up to date without touching
+ * what the user wrote: the plugin's own `supernote-*` properties are replaced
+ * or removed, tags are added to the user's, and other properties are only
+ * filled in when missing.
+ */
+export function mergeFrontmatter(frontmatter: Record<string, unknown>, generated: Record<string, unknown>): void {
+    for (const key of Object.keys(frontmatter)) {
+        if (key.startsWith(PLUGIN_PROPERTY_PREFIX) && !(key in generated)) {
+            delete frontmatter[key];
+        }
+    }
+    for (const [key, value] of Object.entries(generated)) {
+        if (key === 'tags') {
+            frontmatter.tags = [...new Set([...tagList(frontmatter.tags), ...tagList(value)])];
+        } else if (key.startsWith(PLUGIN_PROPERTY_PREFIX) || !(key in frontmatter)) {
+            frontmatter[key] = value;
+        }
+    }
+}
+
+function toHex(digest: ArrayBuffer): string {
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fingerprint every page from its layers, strokes and recognized text plus a
+ * key for the export options, so a page counts as changed when either does.
+ */
+export async function pageFingerprints(sn: SupernoteX, optionsKey: string): Promise<string[]> {
+    const encoder = new TextEncoder();
+    return Promise.all(sn.pages.map(async page => {
+        const parts: Uint8Array[] = [encoder.encode(`${optionsKey}\n${page.text ?? ''}\n`)];
+        for (const name of page.LAYERSEQ ?? []) {
+            const bitmap = page[name]?.bitmapBuffer;
+            parts.push(encoder.encode(`${name}\n`));
+            if (bitmap) parts.push(bitmap);
+        }
+        if (page.totalPathBuffer) {
+            parts.push(page.totalPathBuffer);
+        }
+
+        const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            bytes.set(part, offset);
+            offset += part.length;
+        }
+        return toHex(await crypto.subtle.digest('SHA-256', bytes)).substring(0, 16);
+    }));
+}
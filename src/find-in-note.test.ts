@@ -0,0 +1,42 @@
+import { findInPages } from './find-in-note';
+
+function word(label: string, x: number) {
+    return { label, rect: { x, y: 100, width: 50, height: 20 } };
+}
+
+describe('find in note', () => {
+    it('should find every occurrence with the boxes of the words it covers', () => {
+        const pages = [
+            { text: 'Call Anna about the budget', words: [word('Call', 0), word('Anna', 60), word('about', 120), word('the', 180), word('budget', 240)] },
+            { text: 'budget', words: [word('Budget', 0)] },
+        ];
+
+        const matches = findInPages(pages, 'the BUDGET');
+
+        expect(matches).toHaveLength(1);
+        expect(matches[0].page).toBe(0);
+        expect(matches[0].boxes.map(box => box.x)).toEqual([180, 240]);
+        expect(matches[0]).toMatchObject({ before: 'Call Anna about ', match: 'the budget', after: '' });
+
+        expect(findInPages(pages, 'budget').map(match => match.page)).toEqual([0, 1]);
+    });
+
+    it('should search the text of pages without word positions', () => {
+        const matches = findInPages([{ text: 'first line\nsecond line', words: [] }], 'line');
+
+        expect(matches).toHaveLength(2);
+        expect(matches[1]).toMatchObject({ before: 'first line second ', match: 'line', boxes: [] });
+    });
+
+    it('should shorten long context', () => {
+        const text = `${'x'.repeat(50)} needle ${'y'.repeat(50)}`;
+        const [match] = findInPages([{ text, words: [] }], 'needle');
+
+        expect(match.before.startsWith('…')).toBe(true);
+        expect(match.after.endsWith('…')).toBe(true);
+    });
+
+    it('should not match empty queries', () => {
+        expect(findInPages([{ text: 'anything', words: [] }], '  ')).toEqual([]);
+    });
+});
@@ -0,0 +1,68 @@
+import type { NoteRect, RecognizedWord } from './note-metadata';
+
+/** What the find bar searches on one page. */
+export interface FindPage {
+    /** Recognized text of the page. */
+    text: string;
+    /** Recognized words with their boxes; may be empty. */
+    words: RecognizedWord[];
+}
+
+/** One occurrence of the query. */
+export interface FindMatch {
+    /** Page index, starting at 0. */
+    page: number;
+    /** Text just before and after the match, for the list of matches. */
+    before: string;
+    match: string;
+    after: string;
+    /** Boxes of the words the match covers, empty without word positions. */
+    boxes: NoteRect[];
+}
+
+/** Characters of context shown on each side of a match. */
+const CONTEXT_LENGTH = 30;
+
+/**
+ * Find every occurrence of a query in the pages, case-insensitively. Pages
+ * with word positions are searched word by word so matches come with the
+ * boxes to highlight; other pages fall back to their text.
+ */
+export function findInPages(pages: FindPage[], query: string): FindMatch[] {
+    const needle = query.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!needle) return [];
+
+    const matches: FindMatch[] = [];
+    pages.forEach((page, pageIndex) => {
+        // Words joined by single spaces, with where each word starts
+        const starts: number[] = [];
+        let source = '';
+        if (page.words.length > 0) {
+            for (const word of page.words) {
+                if (source) source += ' ';
+                starts.push(source.length);
+                source += word.label;
+            }
+        } else {
+            source = page.text.replace(/\s+/g, ' ').trim();
+        }
+
+        const lower = source.toLowerCase();
+        for (let i = lower.indexOf(needle); i !== -1; i = lower.indexOf(needle, i + needle.length)) {
+            const end = i + needle.length;
+            const boxes = page.words
+                .filter((word, w) => starts[w] < end && starts[w] + word.label.length > i)
+                .map(word => word.rect);
+            const contextStart = Math.max(i - CONTEXT_LENGTH, 0);
+            const contextEnd = Math.min(end + CONTEXT_LENGTH, source.length);
+            matches.push({
+                page: pageIndex,
+                before: `${contextStart > 0 ? '…' : ''}${source.substring(contextStart, i)}`,
+                match: source.substring(i, end),
+                after: `${source.substring(end, contextEnd)}${contextEnd < source.length ? '…' : ''}`,
+                boxes,
+            });
+        }
+    });
+    return matches;
+}
@@ -1,15 +1,27 @@
 import { installAtPolyfill } from './polyfills';
-import { App, Modal, TFile, Plugin, Editor, MarkdownView, WorkspaceLeaf, FileView, Notice } from 'obsidian';
-import { SupernotePluginSettings, SupernoteSettingTab, DEFAULT_SETTINGS } from './settings';
+import { App, Modal, TFile, Plugin, Editor, MarkdownView, WorkspaceLeaf, FileView, ViewStateResult, Scope, Notice, Menu, SuggestModal, Debouncer, debounce, stringifyYaml } from 'obsidian';
+import { SupernotePluginSettings, SupernoteSettingTab, DEFAULT_SETTINGS, ExportProfile } from './settings';
 import { SupernoteX, fetchMirrorFrame } from 'supernote';
 import { DownloadListModal, UploadListModal } from './FileListModal';
 import { jsPDF } from 'jspdf';
-import { SupernoteWorkerMessage, SupernoteWorkerResponse } from './myworker.worker';
+import { ImageFormat, InkPalette, NoteLayerName, OutputOptions, PageErrorCode, PageStage, RenderOptions, SupernoteWorkerMessage, SupernoteWorkerResponse } from './myworker.worker';
 import Worker from 'myworker.worker';
 import { replaceTextWithCustomDictionary } from './customDictionary';
 
 import { VirtualFolderProvider } from './virtual-folder-provider';
 import { BatchFileManager } from './batch-file-manager';
+import { getKeywords, getLinks, keywordTags, keywordToTag, getRecognitionWords, getTitles, NoteKeyword, NoteTitle, RecognizedWord, textInRect } from './note-metadata';
+import { DEFAULT_MARKDOWN_TEMPLATE, NoteTemplateData, renderTemplate, TemplateError, TemplateValues } from './markdown-template';
+import { SyncEngine, showSyncResult } from './sync-engine';
+import { AutoSyncService } from './auto-sync';
+import { PageCache } from './page-cache';
+import { ProgressBar } from './progress-bar';
+import { NoteEmbed, embedOptionsFromSubpath } from './note-embed';
+import { CodeBlockError, parseCodeBlock } from './code-block';
+import { FindMatch, findInPages } from './find-in-note';
+import { SearchIndex } from './search-index';
+import { NoteSearchModal } from './search-modal';
+import { hasGenerated, mergeFrontmatter, pageFingerprints, pageMarker, readPageMarkers, replaceGenerated, wrapGenerated } from './export-update';
 
 function generateTimestamp(): string {
 	const date = new Date();
@@ -24,20 +36,6 @@ function generateTimestamp(): string {
 	return timestamp;
 }
 
-function dataUrlToBuffer(dataUrl: string): ArrayBuffer {
-	// Remove data URL prefix (e.g., "data:image/png;base64,")
-	const base64 = dataUrl.split(',')[1];
-	// Convert base64 to binary string
-	const binaryString = atob(base64);
-	// Create buffer and view
-	const bytes = new Uint8Array(binaryString.length);
-	// Convert binary string to buffer
-	for (let i = 0; i < binaryString.length; i++) {
-		bytes[i] = binaryString.charCodeAt(i);
-	}
-	return bytes.buffer as ArrayBuffer;
-}
-
 /**
  * Processes the Supernote text based on the provided settings.
  * 
@@ -53,111 +51,496 @@ export function processSupernoteText(text: string, settings: SupernotePluginSett
 	return processedText;
 }
 
+/** A title with the text written in it. */
+export interface NamedTitle extends NoteTitle {
+	text: string;
+}
+
+/**
+ * Titles of a note with their recognized text, or a placeholder for titles
+ * without any.
+ */
+export function getNamedTitles(sn: SupernoteX, buffer: Uint8Array | undefined, settings: SupernotePluginSettings): NamedTitle[] {
+	const words = buffer ? getRecognitionWords(sn, buffer) : [];
+	return getTitles(sn).map(title => ({
+		...title,
+		text: processSupernoteText(textInRect(words[title.page] ?? [], title.rect), settings) || `Page ${title.page + 1} heading`,
+	}));
+}
+
+/** Priorities for render jobs; higher runs first. */
+export const RenderPriority = {
+	Background: 0,
+	Normal: 1,
+	Prefetch: 2,
+	Visible: 3,
+} as const;
+
+export interface RenderJobOptions {
+	/** Higher runs first, see RenderPriority. Defaults to Normal. */
+	priority?: number;
+	/** Drops pages that have not been rendered yet. */
+	signal?: AbortSignal;
+	/** Called as soon as each page is ready, in completion order. */
+	onPage?: (pageNumber: number, image: ArrayBuffer) => void;
+	/** Called as the worker moves through the steps of rendering a page. */
+	onProgress?: (pageNumber: number, stage: PageStage) => void;
+	/** Layers, colors and encoding, a full PNG as on the device when omitted. */
+	render?: RenderOptions;
+}
+
+export type { ImageFormat, InkPalette, NoteLayerName, OutputOptions, PageStage, RenderOptions };
+
+function outputKey(output?: OutputOptions): string {
+	const scale = output?.scale ?? 1;
+	const format = output?.format ?? 'png';
+	const bitDepth = Math.min(output?.bitDepth ?? 8, 8);
+	if (scale === 1 && format === 'png' && bitDepth === 8) {
+		return '';
+	}
+	const quality = format === 'png' ? '' : `q${output?.quality ?? 90}`;
+	return `;out=${format}@${scale}x${bitDepth}${quality}`;
+}
+
+/**
+ * Stable key for render options, used to tell cached renders apart.
+ */
+export function renderOptionsKey(options?: RenderOptions): string {
+	const output = outputKey(options?.output);
+	if (!options || (!options.layers && options.includeBackground !== false && !options.transparentPaper && !options.inkColors && !output)) {
+		return 'default';
+	}
+	const layers = options.layers ? [...options.layers].sort().join('+') : 'all';
+	let key = `layers=${layers};bg=${options.includeBackground !== false ? 1 : 0}`;
+	if (options.transparentPaper) {
+		key += ';paper=none';
+	}
+	if (options.inkColors) {
+		const { black, darkGray, gray, white } = options.inkColors;
+		key += `;ink=${[black, darkGray, gray, white].join(',').toLowerCase()}`;
+	}
+	return key + output;
+}
+
+/**
+ * The export profile with the given name, falling back to the first profile
+ * when it was removed. Null when there are no profiles at all.
+ */
+export function getExportProfile(settings: SupernotePluginSettings, name = settings.defaultExportProfile): ExportProfile | null {
+	return settings.exportProfiles.find(profile => profile.name === name) ?? settings.exportProfiles[0] ?? null;
+}
+
+/** File extension for pages encoded with these options. */
+export function imageExtension(output?: OutputOptions): string {
+	const format = output?.format ?? 'png';
+	return format === 'jpeg' ? 'jpg' : format;
+}
+
+/**
+ * Render options for exports, from the "Export layers", "Transparent paper"
+ * and "Recolor ink" settings and an export profile (the default one unless
+ * given). Pass null to keep full size PNGs.
+ */
+export function exportRenderOptions(settings: SupernotePluginSettings, profile = getExportProfile(settings)): RenderOptions {
+	let options: RenderOptions;
+	switch (settings.exportLayers) {
+		case 'ink':
+			options = { includeBackground: false };
+			break;
+		case 'main':
+			options = { layers: ['MAINLAYER'], includeBackground: false };
+			break;
+		default:
+			options = {};
+	}
+	if (settings.exportTransparentPaper) {
+		options.transparentPaper = true;
+	}
+	if (settings.exportRecolorInk) {
+		options.inkColors = { ...settings.exportInkColors };
+	}
+	if (profile) {
+		const { scale, format, quality, bitDepth } = profile;
+		options.output = { scale, format, quality, bitDepth };
+	}
+	return options;
+}
+
+/**
+ * A page the worker could not render. The code tells a broken note apart
+ * from a single bad page.
+ */
+export class PageRenderError extends Error {
+	constructor(public pageNumber: number, public code: PageErrorCode, message: string) {
+		super(message);
+		this.name = 'PageRenderError';
+	}
+}
+
+interface RenderTask {
+	type: SupernoteWorkerMessage['type'];
+	requestId: number;
+	noteKey: string;
+	buffer: Uint8Array;
+	pageNumber: number;
+	priority: number;
+	render?: RenderOptions;
+	cancelled: boolean;
+	onProgress?: (pageNumber: number, stage: PageStage) => void;
+	resolve: (image: ArrayBuffer) => void;
+	reject: (error: Error) => void;
+	cleanup: () => void;
+}
+
+interface WorkerSlot {
+	worker: Worker;
+	task: RenderTask | null;
+	/** Note the worker has parsed, so its buffer need not be sent again. */
+	loadedNote: string | null;
+}
+
+function renderCancelledError(): Error {
+	const error = new Error('Render cancelled');
+	error.name = 'AbortError';
+	return error;
+}
+
+export function isRenderCancelled(error: unknown): boolean {
+	return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Pool of render workers shared by the whole plugin. Pages are queued as
+ * separate jobs so the page on screen can jump ahead of a running export, and
+ * each worker keeps the note it parsed last to avoid parsing it for every page.
+ */
 export class WorkerPool {
-	private workers: Worker[];
+	private slots: WorkerSlot[];
+	private queue: RenderTask[] = [];
+	private nextRequestId = 1;
+	private noteKeys = new WeakMap<Uint8Array, string>();
+	private nextNoteKey = 1;
+
+	// Every worker holds a parsed note in memory, so keep the pool small
+	constructor(private maxWorkers: number = Math.min(navigator.hardwareConcurrency || 2, 4)) {
+		this.slots = Array(Math.max(1, maxWorkers)).fill(null).map(() => {
+			const slot: WorkerSlot = { worker: null as unknown as Worker, task: null, loadedNote: null };
+			this.startWorker(slot);
+			return slot;
+		});
+	}
 
-	constructor(private maxWorkers: number = navigator.hardwareConcurrency) {
-		this.workers = Array(maxWorkers).fill(null).map(() =>
-			new Worker()
-		);
+	private startWorker(slot: WorkerSlot): void {
+		slot.worker = new Worker();
+		slot.loadedNote = null;
+		slot.worker.onmessage = (e: MessageEvent<SupernoteWorkerResponse>) => this.handleResponse(slot, e.data);
+		slot.worker.onerror = (error) => {
+			console.error('Worker error:', error);
+			const task = slot.task;
+			slot.task = null;
+			// Start over with a fresh worker, the old one may be in a bad state
+			slot.worker.terminate();
+			this.startWorker(slot);
+			if (task) {
+				this.settle(task, () => task.reject(new PageRenderError(task.pageNumber, 'render-failed', error.message || 'Worker crashed')));
+			}
+			this.pump();
+		};
 	}
 
-	private processChunk(worker: Worker, note: SupernoteX, pageNumbers: number[], originalBuffer: Uint8Array): Promise<any[]> {
-		return new Promise((resolve, reject) => {
-			// const startTime = Date.now();
+	private handleResponse(slot: WorkerSlot, response: SupernoteWorkerResponse): void {
+		const task = slot.task;
+		if (!task || task.requestId !== response.requestId) return;
 
-			worker.onmessage = (e: MessageEvent<SupernoteWorkerResponse>) => {
-				// const duration = Date.now() - startTime;
-				//console.log(`Processed pages ${pageNumbers.join(',')} in ${duration}ms`);
+		if (response.type === 'progress') {
+			if (!task.cancelled) {
+				task.onProgress?.(response.pageNumber, response.stage);
+			}
+			return;
+		}
 
-				if (e.data.error) {
-					reject(new Error(e.data.error));
-				} else {
-					resolve(e.data.images);
+		slot.task = null;
+		if (response.type === 'page') {
+			this.settle(task, () => task.resolve(response.image));
+		} else {
+			// The worker may not have kept the note if parsing failed
+			slot.loadedNote = null;
+			const { code, message } = response.error;
+			this.settle(task, () => task.reject(new PageRenderError(response.pageNumber, code, message)));
+		}
+		this.pump();
+	}
+
+	private settle(task: RenderTask, settle: () => void): void {
+		task.cleanup();
+		if (!task.cancelled) {
+			settle();
+		}
+	}
+
+	private getNoteKey(buffer: Uint8Array): string {
+		let key = this.noteKeys.get(buffer);
+		if (!key) {
+			key = `note-${this.nextNoteKey++}`;
+			this.noteKeys.set(buffer, key);
+		}
+		return key;
+	}
+
+	/**
+	 * Hand queued jobs to idle workers, highest priority first. A worker that
+	 * already has the job's note loaded is preferred.
+	 */
+	private pump(): void {
+		while (this.queue.length > 0) {
+			const idle = this.slots.filter(slot => !slot.task);
+			if (idle.length === 0) return;
+
+			let next = 0;
+			for (let i = 1; i < this.queue.length; i++) {
+				if (this.queue[i].priority > this.queue[next].priority) {
+					next = i;
 				}
-			};
+			}
+			const task = this.queue.splice(next, 1)[0];
+			const slot = idle.find(candidate => candidate.loadedNote === task.noteKey) ?? idle[0];
+			this.dispatch(slot, task);
+		}
+	}
 
-			worker.onerror = (error) => {
-				console.error('Worker error:', error);
-				reject(error);
-			};
+	private dispatch(slot: WorkerSlot, task: RenderTask): void {
+		slot.task = task;
 
-			// Pass the original buffer data to the worker using transferable objects
-			const message: SupernoteWorkerMessage = {
-				type: 'convert',
-				noteBuffer: originalBuffer.buffer.slice(0) as ArrayBuffer, // Clone and cast to ArrayBuffer
-				pageNumbers
-			};
+		const message: SupernoteWorkerMessage = {
+			type: task.type,
+			requestId: task.requestId,
+			noteKey: task.noteKey,
+			pageNumber: task.pageNumber,
+			render: task.render
+		};
 
-			// Transfer the cloned buffer ownership to worker
-			const bufferCopy = message.noteBuffer;
-			worker.postMessage(message, [bufferCopy]);
-		});
+		if (slot.loadedNote === task.noteKey) {
+			slot.worker.postMessage(message);
+			return;
+		}
+
+		// Pass a copy of the note using transferable objects
+		const { buffer, byteOffset, byteLength } = task.buffer;
+		const noteBuffer = buffer.slice(byteOffset, byteOffset + byteLength) as ArrayBuffer;
+		message.noteBuffer = noteBuffer;
+		slot.loadedNote = task.noteKey;
+		slot.worker.postMessage(message, [noteBuffer]);
 	}
 
-	async processPages(note: SupernoteX, allPageNumbers: number[], originalBuffer: Uint8Array): Promise<any[]> {
-		//console.time('Total processing time');
+	/**
+	 * Queue a single page for rendering. Resolves with the encoded page, PNG
+	 * unless the render options ask for another format.
+	 */
+	renderPage(originalBuffer: Uint8Array, pageNumber: number, options: RenderJobOptions = {}): Promise<ArrayBuffer> {
+		return this.enqueue('convert', originalBuffer, pageNumber, options);
+	}
 
-		// Split pages into chunks based on number of workers
-		const chunkSize = Math.ceil(allPageNumbers.length / this.workers.length);
-		const chunks: number[][] = [];
+	/**
+	 * Queue an SVG of a page's strokes. Resolves with the SVG document.
+	 */
+	async renderSvg(originalBuffer: Uint8Array, pageNumber: number, options: RenderJobOptions = {}): Promise<string> {
+		return new TextDecoder().decode(await this.enqueue('svg', originalBuffer, pageNumber, options));
+	}
 
-		for (let i = 0; i < allPageNumbers.length; i += chunkSize) {
-			chunks.push(allPageNumbers.slice(i, i + chunkSize));
+	private enqueue(type: RenderTask['type'], originalBuffer: Uint8Array, pageNumber: number, options: RenderJobOptions): Promise<ArrayBuffer> {
+		const { signal } = options;
+		if (signal?.aborted) {
+			return Promise.reject(renderCancelledError());
+		}
+		if (this.slots.length === 0) {
+			return Promise.reject(new Error('Worker pool has been terminated'));
 		}
 
-		//console.log(`Processing ${allPageNumbers.length} pages in ${chunks.length} chunks`);
+		return new Promise<ArrayBuffer>((resolve, reject) => {
+			const onAbort = () => {
+				task.cancelled = true;
+				const index = this.queue.indexOf(task);
+				if (index !== -1) {
+					this.queue.splice(index, 1);
+				}
+				// A running page is left to finish, its result is ignored
+				task.cleanup();
+				reject(renderCancelledError());
+			};
 
-		// Process chunks in parallel using available workers
-		const results = await Promise.all(
-			chunks.map((chunk, index) =>
-				this.processChunk(this.workers[index % this.workers.length], note, chunk, originalBuffer)
-			)
-		);
+			const task: RenderTask = {
+				type,
+				requestId: this.nextRequestId++,
+				noteKey: this.getNoteKey(originalBuffer),
+				buffer: originalBuffer,
+				pageNumber,
+				priority: options.priority ?? RenderPriority.Normal,
+				render: options.render,
+				cancelled: false,
+				onProgress: options.onProgress,
+				resolve: (image) => {
+					options.onPage?.(pageNumber, image);
+					resolve(image);
+				},
+				reject,
+				cleanup: () => signal?.removeEventListener('abort', onAbort),
+			};
 
-		//console.timeEnd('Total processing time');
-		return results.flat();
+			signal?.addEventListener('abort', onAbort);
+			this.queue.push(task);
+			this.pump();
+		});
 	}
 
 	terminate() {
-		this.workers.forEach(worker => worker.terminate());
-		this.workers = [];
+		const pending = [...this.queue, ...this.slots.map(slot => slot.task)];
+		this.queue = [];
+		this.slots.forEach(slot => slot.worker.terminate());
+		this.slots = [];
+		for (const task of pending) {
+			if (task) {
+				this.settle(task, () => task.reject(renderCancelledError()));
+			}
+		}
 	}
 }
 
+let sharedWorkerPool: WorkerPool | null = null;
+
+/**
+ * The plugin-wide worker pool, started on first use and stopped on unload.
+ */
+function getWorkerPool(): WorkerPool {
+	if (!sharedWorkerPool) {
+		sharedWorkerPool = new WorkerPool();
+	}
+	return sharedWorkerPool;
+}
+
+export interface ConvertOptions extends RenderJobOptions {
+	/** Vault path of the note, lets the page cache drop pages when it changes. */
+	sourcePath?: string;
+	/** Called for each page that could not be rendered. */
+	onPageError?: (error: PageRenderError) => void;
+}
+
 export class ImageConverter {
 	private workerPool: WorkerPool;
+	private noteHashes = new WeakMap<Uint8Array, Promise<string>>();
+
+	constructor(workerPool?: WorkerPool) {
+		this.workerPool = workerPool ?? getWorkerPool();
+	}
+
+	private hashNote(buffer: Uint8Array): Promise<string> {
+		let hash = this.noteHashes.get(buffer);
+		if (!hash) {
+			hash = PageCache.hashNote(buffer);
+			this.noteHashes.set(buffer, hash);
+		}
+		return hash;
+	}
+
+	/**
+	 * Render and encode a single page, served from the page cache when
+	 * possible.
+	 */
+	async convertPage(note: SupernoteX, pageNumber: number, originalBuffer: Uint8Array, options: ConvertOptions = {}): Promise<ArrayBuffer> {
+		if (!pageCache || !pageCache.isEnabled()) {
+			return await this.workerPool.renderPage(originalBuffer, pageNumber, options);
+		}
+
+		const noteHash = await this.hashNote(originalBuffer);
+		if (options.sourcePath) {
+			await pageCache.trackSource(options.sourcePath, noteHash);
+		}
+
+		const optionsKey = renderOptionsKey(options.render);
+		const cached = await pageCache.get(noteHash, pageNumber, optionsKey);
+		if (cached) {
+			options.onPage?.(pageNumber, cached);
+			return cached;
+		}
 
-	constructor(maxWorkers = navigator.hardwareConcurrency) {  // Default to 4 workers
-		this.workerPool = new WorkerPool(maxWorkers);
+		const image = await this.workerPool.renderPage(originalBuffer, pageNumber, options);
+		await pageCache.put(noteHash, pageNumber, image, optionsKey);
+		return image;
 	}
 
-	async convertToImages(note: SupernoteX, pageNumbers?: number[], originalBuffer?: Uint8Array): Promise<any[]> {
+	/**
+	 * Build an SVG of a page's strokes in a worker.
+	 */
+	convertPageToSvg(pageNumber: number, originalBuffer: Uint8Array, options: RenderJobOptions = {}): Promise<string> {
+		return this.workerPool.renderSvg(originalBuffer, pageNumber, options);
+	}
+
+	/**
+	 * Render several pages as PNG bytes, in page order. Pages that fail to
+	 * render are null, so every image stays at the index of its page.
+	 */
+	async convertToImages(note: SupernoteX, pageNumbers?: number[], originalBuffer?: Uint8Array, options: ConvertOptions = {}): Promise<(ArrayBuffer | null)[]> {
 		const pages = pageNumbers ?? Array.from({ length: note.pages.length }, (_, i) => i + 1);
 		if (!originalBuffer) {
 			throw new Error('Original buffer is required for image conversion');
 		}
-		const results = await this.workerPool.processPages(note, pages, originalBuffer);
-		return results;
-	}
 
-	terminate() {
-		this.workerPool.terminate();
+		const images = await Promise.all(pages.map(pageNumber =>
+			this.convertPage(note, pageNumber, originalBuffer, options).catch(error => {
+				if (isRenderCancelled(error)) throw error;
+				const pageError = error instanceof PageRenderError
+					? error
+					: new PageRenderError(pageNumber, 'render-failed', error instanceof Error ? error.message : String(error));
+				console.error(`Error processing page ${pageNumber}:`, pageError);
+				options.onPageError?.(pageError);
+				return null;
+			})
+		));
+
+		if (pages.length > 0 && images.every(image => image === null)) {
+			throw new Error('No images generated from any pages. File may be invalid or empty.');
+		}
+		return images;
 	}
 }
 
+/**
+ * Stop the shared worker pool, cancelling queued pages.
+ */
+function terminateWorkerPool(): void {
+	sharedWorkerPool?.terminate();
+	sharedWorkerPool = null;
+}
+
+/** An entry of a PDF's outline, as returned by jsPDF. */
+export type PdfOutlineNode = ReturnType<jsPDF['outline']['add']>;
+
+export interface PDFPageOptions {
+	/** Add the first page after the document's last page instead of reusing it. */
+	startOnNewPage?: boolean;
+	/** Original note buffer, needed to resolve links. */
+	buffer?: Uint8Array;
+	/** Format the page images were encoded in. Defaults to PNG. */
+	imageFormat?: ImageFormat;
+	/** Outline entry the note's titles are nested under. */
+	outlineParent?: PdfOutlineNode;
+}
+
 export class VaultWriter {
 	app: App;
 	settings: SupernotePluginSettings;
+	/** Set once the plugin has loaded, to look up where synced notes live on the device. */
+	syncEngine: SyncEngine | null = null;
 
 	constructor(app: App, settings: SupernotePluginSettings) {
 		this.app = app;
 		this.settings = settings;
 	}
 
-	async writeMarkdownFile(file: TFile, sn: SupernoteX, imgs: TFile[] | null) {
-		let content = '';
-
+	/**
+	 * Write a new Markdown export. Page fingerprints, when given, are recorded
+	 * with each page so a later export can update this one in place.
+	 */
+	async writeMarkdownFile(file: TFile, sn: SupernoteX, imgs: (TFile | null)[] | null, buffer: Uint8Array, fingerprints?: string[]) {
 		// Generate a non-conflicting filename - it has a bit of a race but that is OK
 		let filename = `${file.parent?.path}/${file.basename}.md`;
 		let i = 0;
@@ -165,66 +548,324 @@ export class VaultWriter {
 			filename = `${file.parent?.path}/${file.basename} ${++i}.md`;
 		}
 
-		content = this.app.fileManager.generateMarkdownLink(file, filename);
-		content += '\n';
+		let content = wrapGenerated(this.renderMarkdown(file, sn, imgs, filename, buffer, fingerprints));
+		if (this.settings.markdownFrontmatter) {
+			content = `---\n${stringifyYaml(await this.getFrontmatter(file, sn, buffer))}---\n${content}`;
+		}
+
+		this.app.vault.create(filename, content);
+	}
+
+	/**
+	 * Fill in the Markdown template for a note, marking every page with its
+	 * fingerprint and image when fingerprints are given.
+	 */
+	renderMarkdown(file: TFile, sn: SupernoteX, imgs: (TFile | null)[] | null, sourcePath: string, buffer?: Uint8Array, fingerprints?: string[]): string {
+		const data = this.getTemplateData(file, sn, imgs, sourcePath, buffer);
+		const options = fingerprints ? {
+			pagePrefix: (index: number) => `${pageMarker({ page: index + 1, hash: fingerprints[index], image: imgs?.[index]?.path })}\n`,
+		} : {};
+
+		try {
+			return renderTemplate(this.settings.markdownTemplate || DEFAULT_MARKDOWN_TEMPLATE, data, options);
+		} catch (error) {
+			if (!(error instanceof TemplateError)) throw error;
+			new Notice(`Markdown template error: ${error.message}. Using the default template.`);
+			return renderTemplate(DEFAULT_MARKDOWN_TEMPLATE, data, options);
+		}
+	}
+
+	/**
+	 * Find an earlier Markdown export of a note that can be updated: one whose
+	 * frontmatter names the note as its source, or failing that the file an
+	 * export would first be written to. Either must have a generated region.
+	 */
+	async findPreviousExport(file: TFile): Promise<TFile | null> {
+		const candidates = this.app.vault.getMarkdownFiles()
+			.filter(md => this.app.metadataCache.getFileCache(md)?.frontmatter?.['supernote-source'] === file.path);
+		const conventional = this.app.vault.getFileByPath(`${file.parent?.path}/${file.basename}.md`);
+		if (conventional && !candidates.includes(conventional)) {
+			candidates.push(conventional);
+		}
 
-		for (let i = 0; i < sn.pages.length; i++) {
-			content += `## Page ${i + 1}\n\n`
-			if (sn.pages[i].text !== undefined && sn.pages[i].text.length > 0) {
-				content += `${processSupernoteText(sn.pages[i].text, this.settings)}\n`;
+		for (const candidate of candidates) {
+			if (hasGenerated(await this.app.vault.read(candidate))) {
+				return candidate;
 			}
-			if (imgs) {
-				let subpath = '';
-				if (this.settings.invertColorsWhenDark) {
-					subpath = '#supernote-invert-dark';
+		}
+		return null;
+	}
+
+	/**
+	 * Bring an earlier Markdown export up to date. Pages whose fingerprint
+	 * still matches keep their image; the others are rendered again and their
+	 * images overwritten. Only the generated region and the frontmatter
+	 * properties the plugin writes are replaced. Without render options no
+	 * page is rendered: the text is rewritten and pages keep the images they
+	 * already had.
+	 */
+	async updateExport(previous: TFile, file: TFile, sn: SupernoteX, buffer: Uint8Array, render: RenderOptions | null) {
+		const markers = readPageMarkers(await this.app.vault.read(previous));
+		const fingerprints = await pageFingerprints(sn, render ? renderOptionsKey(render) : 'markdown');
+		const existingImage = (page: number) => {
+			const path = markers.get(page)?.image;
+			return path ? this.app.vault.getFileByPath(path) : null;
+		};
+
+		let imgs: (TFile | null)[] | null = null;
+		let rerendered = 0;
+		if (render) {
+			const changed: number[] = [];
+			imgs = sn.pages.map((_, index) => {
+				const image = existingImage(index + 1);
+				if (image && markers.get(index + 1)?.hash === fingerprints[index]) {
+					return image;
 				}
+				changed.push(index + 1);
+				return null;
+			});
 
-				const link = this.app.fileManager.generateMarkdownLink(imgs[i], filename, subpath);
-				content += `${link}\n`;
+			if (changed.length > 0) {
+				const converter = new ImageConverter();
+				const images = await converter.convertToImages(sn, changed, buffer, { sourcePath: file.path, render });
+				const extension = imageExtension(render.output);
+				for (let i = 0; i < changed.length; i++) {
+					const image = images[i];
+					if (image === null) continue;
+
+					const pageNumber = changed[i];
+					const old = existingImage(pageNumber);
+					if (old && old.extension === extension) {
+						await this.app.vault.modifyBinary(old, image);
+						imgs[pageNumber - 1] = old;
+					} else {
+						if (old) await this.app.fileManager.trashFile(old);
+						const filename = await this.app.fileManager.getAvailablePathForAttachment(`${file.basename}-${pageNumber - 1}.${extension}`);
+						imgs[pageNumber - 1] = await this.app.vault.createBinary(filename, image);
+					}
+					rerendered++;
+				}
 			}
+		} else if ([...markers.values()].some(marker => marker.image)) {
+			// Dropping the links would orphan the image files
+			imgs = sn.pages.map((_, index) => existingImage(index + 1));
 		}
 
-		this.app.vault.create(filename, content);
+		// Pages removed from the note take their images with them
+		for (const page of markers.keys()) {
+			const old = page > sn.pages.length ? existingImage(page) : null;
+			if (old) await this.app.fileManager.trashFile(old);
+		}
+
+		const generated = this.renderMarkdown(file, sn, imgs, previous.path, buffer, fingerprints);
+		await this.app.vault.process(previous, content => replaceGenerated(content, generated) ?? content);
+		if (this.settings.markdownFrontmatter) {
+			const frontmatter = await this.getFrontmatter(file, sn, buffer);
+			await this.app.fileManager.processFrontMatter(previous, fm => mergeFrontmatter(fm, frontmatter));
+		}
+
+		new Notice(render
+			? `Updated ${previous.name}: ${rerendered} of ${sn.pages.length} page${sn.pages.length === 1 ? '' : 's'} rendered again`
+			: `Updated ${previous.name}`);
 	}
 
-	async writeImageFiles(file: TFile, sn: SupernoteX, originalBuffer: Uint8Array): Promise<TFile[]> {
-		let images: string[] = [];
+	/**
+	 * Frontmatter for a Markdown export, so exports can be queried and matched
+	 * back to their source note.
+	 */
+	async getFrontmatter(file: TFile, sn: SupernoteX, buffer: Uint8Array): Promise<Record<string, unknown>> {
+		const header = sn.header;
+		const frontmatter: Record<string, unknown> = {
+			'supernote-source': file.path,
+		};
+
+		const devicePath = await this.syncEngine?.getDeviceUri(file.path);
+		if (devicePath) {
+			frontmatter['supernote-device-path'] = devicePath;
+		}
 
-		const converter = new ImageConverter();
-		try {
-			images = await converter.convertToImages(sn, undefined, originalBuffer);
-		} finally {
-			// Clean up the worker when done
-			converter.terminate();
+		frontmatter['supernote-pages'] = sn.pages.length;
+		frontmatter['supernote-page-size'] = `${sn.pageWidth}x${sn.pageHeight}`;
+		if (header.APPLY_EQUIPMENT) {
+			frontmatter['supernote-device'] = header.APPLY_EQUIPMENT;
+		}
+		if (header.FILE_TYPE) {
+			frontmatter['supernote-file-type'] = header.FILE_TYPE;
+		}
+		if (sn.version) {
+			frontmatter['supernote-version'] = sn.version;
+		}
+		frontmatter.created = new Date(file.stat.ctime).toISOString();
+		frontmatter.modified = new Date(file.stat.mtime).toISOString();
+
+		const tags = [...new Set(getKeywords(sn, buffer).map(keyword => keywordToTag(keyword.text)).filter(tag => tag))];
+		if (tags.length > 0) {
+			frontmatter.tags = tags;
+		}
+		return frontmatter;
+	}
+
+	/**
+	 * Values the Markdown export template can use, for the note and for each
+	 * page. Links are generated relative to the Markdown file at sourcePath.
+	 */
+	getTemplateData(file: TFile, sn: SupernoteX, imgs: (TFile | null)[] | null, sourcePath: string, buffer?: Uint8Array): NoteTemplateData {
+		const titles = getNamedTitles(sn, buffer, this.settings);
+		const keywords = buffer ? getKeywords(sn, buffer) : [];
+		const titleList = (list: NamedTitle[]) => list
+			.map(title => `${'  '.repeat(title.level - 1)}- ${title.text}`)
+			.join('\n');
+		// Titles sit below the page headings, so level 1 is ###
+		const headings = (list: NamedTitle[]) => list
+			.map(title => `${'#'.repeat(Math.min(title.level + 2, 6))} ${title.text}`)
+			.join('\n\n');
+
+		let subpath = '';
+		if (this.settings.invertColorsWhenDark) {
+			subpath = '#supernote-invert-dark';
 		}
 
-		const imgs: TFile[] = [];
+		const note: TemplateValues = {
+			noteName: file.basename,
+			noteLink: this.app.fileManager.generateMarkdownLink(file, sourcePath),
+			sourcePath: file.path,
+			created: new Date(file.stat.ctime),
+			modified: new Date(file.stat.mtime),
+			pageCount: sn.pages.length,
+			titles: titleList(titles),
+			keywords: [...new Set(keywords.map(keyword => keyword.text))].join(', '),
+			tags: keywordTags(keywords),
+		};
+
+		const pages = sn.pages.map((page, index) => {
+			const img = imgs ? imgs[index] : null;
+			const pageTitles = titles.filter(title => title.page === index);
+			const pageKeywords = keywords.filter(keyword => keyword.page === index);
+			const text = page.text !== undefined && page.text.length > 0 ? processSupernoteText(page.text, this.settings) : '';
+			return {
+				pageNumber: index + 1,
+				text,
+				image: img ? this.app.fileManager.generateMarkdownLink(img, sourcePath, subpath) : '',
+				renderFailed: !!imgs && !img,
+				pageTitles: titleList(pageTitles),
+				pageHeadings: headings(pageTitles),
+				pageKeywords: pageKeywords.map(keyword => keyword.text).join(', '),
+				pageTags: keywordTags(pageKeywords),
+			};
+		});
+
+		return { note, pages };
+	}
+
+	async writeImageFiles(file: TFile, sn: SupernoteX, originalBuffer: Uint8Array, render = exportRenderOptions(this.settings)): Promise<(TFile | null)[]> {
+		const converter = new ImageConverter();
+		const images = await converter.convertToImages(sn, undefined, originalBuffer, { sourcePath: file.path, render });
+
+		const imgs: (TFile | null)[] = [];
 		for (let i = 0; i < images.length; i++) {
-			const filename = await this.app.fileManager.getAvailablePathForAttachment(`${file.basename}-${i}.png`);
-			const buffer = dataUrlToBuffer(images[i]);
-			imgs.push(await this.app.vault.createBinary(filename, buffer));
+			const image = images[i];
+			if (image === null) {
+				imgs.push(null);
+				continue;
+			}
+			const filename = await this.app.fileManager.getAvailablePathForAttachment(`${file.basename}-${i}.${imageExtension(render.output)}`);
+			imgs.push(await this.app.vault.createBinary(filename, image));
+		}
+
+		const failed = imgs.filter(img => img === null).length;
+		if (failed > 0) {
+			new Notice(`${failed} page${failed > 1 ? 's' : ''} of ${file.name} could not be rendered`);
 		}
 		return imgs;
 	}
 
+	/**
+	 * Update the earlier Markdown export of a note that changed, with images
+	 * if it had them. Notes without an export that can be updated are left
+	 * alone.
+	 */
+	async refreshExport(file: TFile) {
+		const previous = await this.findPreviousExport(file);
+		if (!previous) return;
+
+		const markers = readPageMarkers(await this.app.vault.read(previous));
+		const hasImages = [...markers.values()].some(marker => marker.image);
+		const note = await this.app.vault.readBinary(file);
+		const buffer = new Uint8Array(note);
+		await this.updateExport(previous, file, new SupernoteX(buffer), buffer, hasImages ? exportRenderOptions(this.settings) : null);
+	}
+
+	/**
+	 * The export to update instead of writing a new one, when updating in
+	 * place is turned on.
+	 */
+	private async exportToUpdate(file: TFile): Promise<TFile | null> {
+		return this.settings.markdownUpdateInPlace ? this.findPreviousExport(file) : null;
+	}
+
 	async attachMarkdownFile(file: TFile) {
 		const note = await this.app.vault.readBinary(file);
-		const sn = new SupernoteX(new Uint8Array(note));
+		const buffer = new Uint8Array(note);
+		const sn = new SupernoteX(buffer);
 
-		this.writeMarkdownFile(file, sn, null);
+		const previous = await this.exportToUpdate(file);
+		if (previous) {
+			await this.updateExport(previous, file, sn, buffer, null);
+			return;
+		}
+		this.writeMarkdownFile(file, sn, null, buffer, await pageFingerprints(sn, 'markdown'));
 	}
 
-	async attachNoteFiles(file: TFile) {
+	async attachNoteFiles(file: TFile, render = exportRenderOptions(this.settings)) {
 		const note = await this.app.vault.readBinary(file);
 		const buffer = new Uint8Array(note);
 		const sn = new SupernoteX(buffer);
 
-		const imgs = await this.writeImageFiles(file, sn, buffer);
-		this.writeMarkdownFile(file, sn, imgs);
+		const previous = await this.exportToUpdate(file);
+		if (previous) {
+			await this.updateExport(previous, file, sn, buffer, render);
+			return;
+		}
+		const imgs = await this.writeImageFiles(file, sn, buffer, render);
+		this.writeMarkdownFile(file, sn, imgs, buffer, await pageFingerprints(sn, renderOptionsKey(render)));
+	}
+
+	/**
+	 * Export each page as an SVG attachment.
+	 */
+	async attachSvgFiles(file: TFile, render = exportRenderOptions(this.settings)): Promise<TFile[]> {
+		const note = await this.app.vault.readBinary(file);
+		const buffer = new Uint8Array(note);
+		const sn = new SupernoteX(buffer);
+
+		// The strokes are read in the workers, a page at a time
+		const converter = new ImageConverter();
+		const documents = await Promise.all(sn.pages.map((_, i) => converter.convertPageToSvg(i + 1, buffer, { render })));
+		const svgs: TFile[] = [];
+		for (let i = 0; i < documents.length; i++) {
+			const filename = await this.app.fileManager.getAvailablePathForAttachment(`${file.basename}-${i}.svg`);
+			svgs.push(await this.app.vault.create(filename, documents[i]));
+		}
+		return svgs;
 	}
 
 	// Extract the exact PDF generation logic into a reusable function
-	async generatePDFFromSupernote(sn: SupernoteX, originalBuffer: Uint8Array): Promise<ArrayBuffer> {
+	async generatePDFFromSupernote(sn: SupernoteX, originalBuffer: Uint8Array, options: ConvertOptions = {}): Promise<ArrayBuffer> {
+		// Convert note pages to images
+		const converter = new ImageConverter();
+		const convertOptions: ConvertOptions = {
+			render: exportRenderOptions(this.settings),
+			...options
+		};
+		const images = await converter.convertToImages(sn, undefined, originalBuffer, convertOptions);
+
+		return this.buildPDF(sn, images, originalBuffer, convertOptions.render?.output?.format);
+	}
+
+	/**
+	 * Build a PDF from pages that were already rendered.
+	 */
+	buildPDF(sn: SupernoteX, images: (ArrayBuffer | null)[], originalBuffer: Uint8Array, imageFormat?: ImageFormat): ArrayBuffer {
 		// Create PDF document
 		const pdf = new jsPDF({
 			orientation: 'portrait',
@@ -232,42 +873,98 @@ export class VaultWriter {
 			format: [sn.pageWidth, sn.pageHeight] // A4 size in pixels
 		});
 
-		// Convert note pages to images
-		const converter = new ImageConverter();
-		let images: string[] = [];
-		try {
-			images = await converter.convertToImages(sn, undefined, originalBuffer);
-		} finally {
-			converter.terminate();
-		}
+		this.appendPagesToPDF(pdf, sn, images, { buffer: originalBuffer, imageFormat });
+
+		return pdf.output('arraybuffer');
+	}
+
+	/**
+	 * Add rendered note pages to a PDF, along with an outline built from the
+	 * note's titles and clickable areas for its links. The first page reuses
+	 * the document's current page unless startOnNewPage is set. Pages that
+	 * could not be rendered (null) get a placeholder so page numbers line up.
+	 */
+	appendPagesToPDF(pdf: jsPDF, sn: SupernoteX, images: (ArrayBuffer | null)[], options: PDFPageOptions = {}) {
+		const firstPage = options.startOnNewPage ? pdf.getNumberOfPages() + 1 : pdf.getNumberOfPages();
+		const links = options.buffer ? getLinks(sn, options.buffer) : [];
+		const words = options.buffer ? getRecognitionWords(sn, options.buffer) : [];
+		const imageFormat = (options.imageFormat ?? 'png').toUpperCase();
 
-		// Add each page to PDF
 		for (let i = 0; i < images.length; i++) {
-			if (i > 0) {
-				pdf.addPage();
+			if (i > 0 || options.startOnNewPage) {
+				pdf.addPage([sn.pageWidth, sn.pageHeight], 'portrait');
 			}
 
-			if (sn.pages[i].text !== undefined && sn.pages[i].text.length > 0) {
+			// Add image first
+			const image = images[i];
+			if (image) {
+				// Scaled down pages are stretched back to the page size
+				pdf.addImage(new Uint8Array(image), imageFormat, 0, 0, sn.pageWidth, sn.pageHeight);
+			} else {
+				pdf.setFontSize(40);
+				pdf.text(`Page ${i + 1} could not be rendered`, sn.pageWidth / 2, sn.pageHeight / 2, { align: 'center' });
+			}
+
+			if (words[i] && words[i].length > 0) {
+				this.addTextLayer(pdf, words[i]);
+			} else if (sn.pages[i].text !== undefined && sn.pages[i].text.length > 0) {
+				// No word positions stored, fall back to a single text block
 				pdf.setFontSize(100);
-				pdf.setTextColor(0, 0, 0, 0); // Transparent text
-				pdf.text(processSupernoteText(sn.pages[i].text, this.settings), 20, 20, { maxWidth: sn.pageWidth });
-				pdf.setTextColor(0, 0, 0, 1);
+				pdf.text(processSupernoteText(sn.pages[i].text, this.settings), 20, 20, { maxWidth: sn.pageWidth, renderingMode: 'invisible' });
 			}
 
-			// Add image first
-			pdf.addImage(images[i], 'PNG', 0, 0, sn.pageWidth, sn.pageHeight);
+			for (const link of links.filter(l => l.page === i)) {
+				const { x, y, width, height } = link.rect;
+				if (link.targetPage !== undefined && link.targetPage < images.length) {
+					pdf.link(x, y, width, height, { pageNumber: firstPage + link.targetPage });
+				} else if (link.target && /^https?:\/\//.test(link.target)) {
+					pdf.link(x, y, width, height, { url: link.target });
+				}
+			}
 		}
 
-		return pdf.output('arraybuffer');
+		// Nest titles by level below the optional parent entry
+		const stack: { level: number; node: PdfOutlineNode }[] = [];
+		for (const title of getNamedTitles(sn, options.buffer, this.settings)) {
+			if (title.page >= images.length) continue;
+			while (stack.length > 0 && stack[stack.length - 1].level >= title.level) {
+				stack.pop();
+			}
+			const parent = stack.length > 0 ? stack[stack.length - 1].node : options.outlineParent ?? null;
+			const node = pdf.outline.add(parent, title.text, { pageNumber: firstPage + title.page });
+			stack.push({ level: title.level, node });
+		}
+	}
+
+	/**
+	 * Place each recognized word as invisible text over its handwriting, sized
+	 * and stretched to the word's bounding box so search hits and selection
+	 * line up with the page image.
+	 */
+	private addTextLayer(pdf: jsPDF, words: RecognizedWord[]) {
+		const scaleFactor = pdf.internal.scaleFactor;
+		for (const word of words) {
+			const text = processSupernoteText(word.label, this.settings);
+			const { x, y, width, height } = word.rect;
+			if (!text || width <= 0 || height <= 0) continue;
+
+			pdf.setFontSize(height * scaleFactor);
+			const textWidth = pdf.getTextWidth(text);
+			pdf.text(text, x, y + height, {
+				baseline: 'bottom',
+				renderingMode: 'invisible',
+				horizontalScale: textWidth > 0 ? width / textWidth : 1,
+			});
+		}
 	}
 
-	async exportToPDF(file: TFile) {
+	async exportToPDF(file: TFile, render = exportRenderOptions(this.settings)) {
 		const note = await this.app.vault.readBinary(file);
 		const buffer = new Uint8Array(note);
 		const sn = new SupernoteX(buffer);
 
 		// Use the extracted PDF generation function
-		const pdfOutput = await this.generatePDFFromSupernote(sn, buffer);
+		const pdfOutput = await this.generatePDFFromSupernote(sn, buffer, { sourcePath: file.path, render });
 
 		// Generate filename and save
 		const filename = await this.app.fileManager.getAvailablePathForAttachment(`${file.basename}.pdf`);
@@ -276,24 +973,90 @@ export class VaultWriter {
 }
 
 let vw: VaultWriter;
+let pageCache: PageCache | null = null;
 export const VIEW_TYPE_SUPERNOTE = "supernote-view";
 
+/** Pages within this distance of the viewport are rendered ahead of time. */
+const PAGE_PREFETCH_MARGIN = '150% 0px';
+/** Page images further than this from the viewport are released. */
+const PAGE_RETAIN_MARGIN = '500% 0px';
+
+/** A rendered page held by the view. */
+interface ViewPageImage {
+	blob: Blob;
+	/** Object URL of the blob, revoked when the page is released. */
+	url: string;
+}
+
 export class SupernoteView extends FileView {
 	file: TFile;
 	settings: SupernotePluginSettings;
 	private displayMode: 'png' | 'pdf';
 	private pdfDataUrl: string | null = null;
-	private images: string[] = [];
+	private pdfController: AbortController | null = null;
+	private images: (ViewPageImage | undefined)[] = [];
+	private pageRequests = new Map<number, Promise<ViewPageImage>>();
+	private pageControllers = new Map<number, AbortController>();
+	private pageImageEls: HTMLImageElement[] = [];
+	private prefetchObserver: IntersectionObserver | null = null;
+	private retainObserver: IntersectionObserver | null = null;
+	private visibleObserver: IntersectionObserver | null = null;
+	/** Pages at least partly on screen, kept by the visibility observer. */
+	private visiblePages = new Set<number>();
+	private converter: ImageConverter | null = null;
+	private noteBuffer: Uint8Array | null = null;
+	private loadGeneration = 0;
 	private sn: SupernoteX | null = null;
+	private titles: NamedTitle[] = [];
+	private keywords: NoteKeyword[] = [];
+	/** Fingerprint of every page, to tell which pages a change on disk touched. */
+	private pageHashes: string[] = [];
+	/** Where to scroll once the note has been rendered, e.g. when opened from an embed. */
+	private pendingScroll: { page: number; y?: number } | null = null;
 	private contentArea: HTMLElement | null = null;
 	private pngBtn: HTMLButtonElement | null = null;
 	private pdfBtn: HTMLButtonElement | null = null;
+	/**
+	 * Layers drawn in this view; the view's export buttons use them too, with
+	 * the default export profile's encoding.
+	 */
+	private renderOptions: RenderOptions = {};
+	/** Frames around the page images that find highlights are drawn in. */
+	private pageFrameEls: HTMLElement[] = [];
+	/** Recognized words of every page, read when the find bar first needs them. */
+	private pageWords: RecognizedWord[][] | null = null;
+	private findBar: HTMLElement | null = null;
+	private findInput: HTMLInputElement | null = null;
+	private findCountEl: HTMLElement | null = null;
+	private findListEl: HTMLElement | null = null;
+	private findMatches: FindMatch[] = [];
+	private findIndex = -1;
 
 	constructor(leaf: WorkspaceLeaf, settings: SupernotePluginSettings) {
 		super(leaf);
 		this.settings = settings;
 	}
 
+	onload(): void {
+		super.onload();
+		this.scope = new Scope(this.app.scope);
+		this.scope.register(['Mod'], 'f', () => {
+			this.openFindBar();
+			return false;
+		});
+		// The current page is part of the view state
+		this.registerDomEvent(this.containerEl.children[1] as HTMLElement, 'scroll', () => this.app.workspace.requestSaveLayout());
+		// Sync replaces open notes; show their new contents right away
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file === this.file) {
+				this.requestReload();
+			}
+		}));
+	}
+
+	/** Reload once a burst of writes to the note has settled. */
+	private requestReload = debounce(() => this.reloadNote(), 500, true);
+
 	getViewType() {
 		return VIEW_TYPE_SUPERNOTE;
 	}
@@ -308,12 +1071,17 @@ export class SupernoteView extends FileView {
 	async onLoadFile(file: TFile): Promise<void> {
 		this.file = file;
 		this.displayMode = this.settings.defaultDisplayMode;
+		this.renderOptions = exportRenderOptions(this.settings, null);
+		this.resetPages();
+		this.findMatches = [];
+		this.findIndex = -1;
 
 		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 
 		// Create header with file info and controls
 		this.createHeader(container, file);
+		this.createFindBar(container);
 
 		// Load and parse the note file
 		await this.loadNoteData(file);
@@ -323,6 +1091,64 @@ export class SupernoteView extends FileView {
 
 		// Render the content based on current display mode
 		await this.renderContent();
+
+		if (this.pendingScroll && file === this.file) {
+			this.goToPage(this.pendingScroll.page, this.pendingScroll.y);
+		}
+	}
+
+	/**
+	 * Accepts `{ page, y }` to scroll to a page, as passed by note embeds, and
+	 * the `#page=N` subpath of links such as [[name.note#page=3]].
+	 */
+	setEphemeralState(state: unknown): void {
+		super.setEphemeralState(state);
+		if (typeof state !== 'object' || state === null) return;
+
+		const { page, y, subpath } = state as Record<string, unknown>;
+		if (typeof page === 'number') {
+			this.goToPage(page, typeof y === 'number' ? y : undefined);
+		} else if (typeof subpath === 'string') {
+			const pageNumber = parseInt(embedOptionsFromSubpath(subpath).pages ?? '', 10);
+			if (pageNumber > 0) {
+				this.goToPage(pageNumber - 1);
+			}
+		}
+	}
+
+	/** Includes the page at the top of the view, so it is restored on restart. */
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), page: this.pendingScroll?.page ?? this.getCurrentPage() };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const stored = typeof state === 'object' && state !== null ? (state as Record<string, unknown>).page : undefined;
+		const page = typeof stored === 'number' ? stored : null;
+		if (page !== null) {
+			this.pendingScroll = { page };
+		}
+		await super.setState(state, result);
+		// Loading the file scrolls to the page; the same file stays loaded
+		if (page !== null && this.pendingScroll?.page === page) {
+			this.goToPage(page);
+		}
+	}
+
+	/**
+	 * Scroll to a page, or remember it until the note has been rendered.
+	 */
+	private goToPage(pageIndex: number, y?: number): void {
+		if (this.pageImageEls[pageIndex]) {
+			this.pendingScroll = null;
+			this.scrollToPage(pageIndex, y);
+		} else {
+			this.pendingScroll = { page: pageIndex, y };
+		}
+	}
+
+	/** Index of the first page still visible at the top of the view. */
+	private getCurrentPage(): number {
+		return this.visiblePages.size > 0 ? Math.min(...this.visiblePages) : 0;
 	}
 
 	private createHeader(container: HTMLElement, file: TFile): void {
@@ -337,6 +1163,19 @@ export class SupernoteView extends FileView {
 		// Display mode toggle
 		const controlsEl = header.createDiv('supernote-view-controls');
 
+		const modeGroup = controlsEl.createDiv('button-group');
+		this.pngBtn = modeGroup.createEl('button', { text: 'PNG' });
+		this.pngBtn.addEventListener('click', () => this.switchToPngMode());
+		this.pdfBtn = modeGroup.createEl('button', { text: 'PDF' });
+		this.pdfBtn.addEventListener('click', () => this.switchToPdfMode());
+		this.updateModeButtons();
+
+		const layersBtn = controlsEl.createEl('button', { text: 'Layers' });
+		layersBtn.addEventListener('click', (event) => this.showLayerMenu(event));
+
+		const findBtn = controlsEl.createEl('button', { text: 'Find', attr: { 'aria-label': 'Find in note (Ctrl+F)' } });
+		findBtn.addEventListener('click', () => this.openFindBar());
+
 		// Export controls
 		if (this.settings.showExportButtons) {
 			const exportGroup = controlsEl.createDiv('button-group');
@@ -353,6 +1192,12 @@ export class SupernoteView extends FileView {
 			});
 			exportPdfBtn.addEventListener('click', () => this.exportAsPdf());
 
+			const exportSvgBtn = exportGroup.createEl('button', {
+				text: 'Export SVG',
+				cls: 'mod-cta'
+			});
+			exportSvgBtn.addEventListener('click', () => this.exportAsSvg());
+
 			const exportMarkdownBtn = exportGroup.createEl('button', {
 				text: 'Export Markdown',
 				cls: 'mod-cta'
@@ -361,25 +1206,232 @@ export class SupernoteView extends FileView {
 		}
 	}
 
-	private async loadNoteData(file: TFile): Promise<void> {
-		const note = await this.app.vault.readBinary(file);
-		const buffer = new Uint8Array(note);
-		this.sn = new SupernoteX(buffer);
+	private async loadNoteData(file: TFile): Promise<void> {
+		const note = await this.app.vault.readBinary(file);
+		const buffer = new Uint8Array(note);
+		const sn = new SupernoteX(buffer);
+		this.setNote(sn, buffer);
+		this.pageHashes = await pageFingerprints(sn, '');
+
+		// Pages are rendered as they scroll into view, see renderPngView. The
+		// PDF is only built once PDF mode is opened, see renderPdfView.
+		this.images = new Array(sn.pages.length);
+		if (!this.converter) {
+			this.converter = new ImageConverter();
+		}
+	}
+
+	private setNote(sn: SupernoteX, buffer: Uint8Array): void {
+		this.sn = sn;
+		this.noteBuffer = buffer;
+		this.titles = getNamedTitles(sn, buffer, this.settings);
+		this.keywords = getKeywords(sn, buffer);
+		this.pageWords = null;
+	}
+
+	/**
+	 * Show the note's current contents after it changed on disk. Pages whose
+	 * fingerprint is unchanged keep their image, the others are rendered
+	 * again, and the view stays scrolled where it was.
+	 */
+	private async reloadNote(): Promise<void> {
+		const file = this.file;
+		if (!file || !this.sn) return;
+
+		const buffer = new Uint8Array(await this.app.vault.readBinary(file));
+		let sn: SupernoteX;
+		try {
+			sn = new SupernoteX(buffer);
+		} catch (error) {
+			// Most likely still being written; the next modify event retries
+			console.error(`Failed to reload ${file.path}:`, error);
+			return;
+		}
+		const hashes = await pageFingerprints(sn, '');
+		if (file !== this.file) return;
+
+		// Renders in flight are of the old contents
+		this.loadGeneration++;
+		this.cancelPdfBuild();
+		if (this.pdfDataUrl) {
+			URL.revokeObjectURL(this.pdfDataUrl);
+			this.pdfDataUrl = null;
+		}
+		this.pageControllers.forEach(controller => controller.abort());
+		this.pageControllers.clear();
+		this.pageRequests.clear();
+
+		const previous = this.images;
+		this.images = hashes.map((hash, index) => hash === this.pageHashes[index] ? previous[index] : undefined);
+		previous.forEach((image, index) => {
+			if (image && this.images[index] !== image) {
+				URL.revokeObjectURL(image.url);
+			}
+		});
+		this.setNote(sn, buffer);
+		this.pageHashes = hashes;
+
+		const scroller = this.containerEl.children[1] as HTMLElement;
+		const scrollTop = scroller.scrollTop;
+		if (this.findBar?.isShown()) {
+			this.updateFindMatches();
+		}
+		await this.renderContent();
+		scroller.scrollTop = scrollTop;
+	}
+
+	/**
+	 * The find bar searches the recognized text of the pages. It stays at the
+	 * top of the view while scrolling and is hidden until opened.
+	 */
+	private createFindBar(container: HTMLElement): void {
+		this.findBar = container.createDiv('supernote-find-bar');
+		this.findBar.hide();
+
+		const row = this.findBar.createDiv('supernote-find-row');
+		this.findInput = row.createEl('input', { type: 'search', attr: { placeholder: 'Find in recognized text...' } });
+		this.findInput.addEventListener('input', () => this.runFind());
+		this.findInput.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				this.stepFind(event.shiftKey ? -1 : 1);
+			} else if (event.key === 'Escape') {
+				event.preventDefault();
+				this.closeFindBar();
+			}
+		});
+		this.findCountEl = row.createSpan('supernote-find-count');
+
+		const prevBtn = row.createEl('button', { text: '↑', attr: { 'aria-label': 'Previous match' } });
+		prevBtn.addEventListener('click', () => this.stepFind(-1));
+		const nextBtn = row.createEl('button', { text: '↓', attr: { 'aria-label': 'Next match' } });
+		nextBtn.addEventListener('click', () => this.stepFind(1));
+		const closeBtn = row.createEl('button', { text: '✕', attr: { 'aria-label': 'Close' } });
+		closeBtn.addEventListener('click', () => this.closeFindBar());
+
+		this.findListEl = this.findBar.createEl('ul', { cls: 'supernote-find-list' });
+	}
+
+	private openFindBar(): void {
+		if (!this.findBar || !this.findInput) return;
+		// Matches are shown on the page images
+		if (this.displayMode !== 'png') {
+			this.switchToPngMode();
+		}
+		this.findBar.show();
+		this.findInput.focus();
+		this.findInput.select();
+	}
+
+	private closeFindBar(): void {
+		this.findBar?.hide();
+		this.findMatches = [];
+		this.findIndex = -1;
+		this.drawFindHighlights();
+	}
+
+	/**
+	 * Search for the find bar's text and jump to the first match.
+	 */
+	private runFind(): void {
+		this.updateFindMatches();
+		if (this.findMatches.length > 0) {
+			this.goToMatch(0);
+		}
+	}
+
+	/**
+	 * Search the pages again, e.g. after the note changed, without moving.
+	 */
+	private updateFindMatches(): void {
+		if (!this.sn || !this.findInput) return;
+		if (!this.pageWords) {
+			this.pageWords = this.noteBuffer ? getRecognitionWords(this.sn, this.noteBuffer) : [];
+		}
 
-		// Convert to images for PNG view
-		const converter = new ImageConverter();
-		try {
-			this.images = await converter.convertToImages(this.sn, undefined, buffer);
-		} finally {
-			converter.terminate();
+		const pages = this.sn.pages.map((page, index) => ({
+			text: processSupernoteText(page.text ?? '', this.settings),
+			words: (this.pageWords?.[index] ?? []).map(word => ({ ...word, label: processSupernoteText(word.label, this.settings) })),
+		}));
+		this.findMatches = findInPages(pages, this.findInput.value);
+		this.findIndex = Math.min(this.findIndex, this.findMatches.length - 1);
+		if (this.findIndex < 0 && this.findMatches.length > 0) {
+			this.findIndex = 0;
 		}
 
-		// Generate PDF data URL for PDF view
-		if (this.sn.pages.length > 0) {
-			const pdfBuffer = await vw.generatePDFFromSupernote(this.sn, buffer);
-			const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
-			this.pdfDataUrl = URL.createObjectURL(blob);
+		const list = this.findListEl;
+		list?.empty();
+		this.findMatches.forEach((match, index) => {
+			if (!list) return;
+			const item = list.createEl('li');
+			item.createSpan({ text: `Page ${match.page + 1}`, cls: 'supernote-find-page' });
+			item.appendText(` ${match.before}`);
+			item.createEl('mark', { text: match.match });
+			item.appendText(match.after);
+			item.addEventListener('click', () => this.goToMatch(index));
+		});
+		this.updateFindState();
+	}
+
+	private stepFind(delta: number): void {
+		const count = this.findMatches.length;
+		if (count === 0) return;
+		this.goToMatch((this.findIndex + delta + count) % count);
+	}
+
+	/**
+	 * Select a match and scroll to it, a little above its first word.
+	 */
+	private goToMatch(index: number): void {
+		const match = this.findMatches[index];
+		if (!match) return;
+
+		this.findIndex = index;
+		this.updateFindState();
+		const box = match.boxes[0];
+		this.scrollToPage(match.page, box ? Math.max(box.y - box.height * 2, 0) : undefined);
+	}
+
+	/** Refresh the match count, the selected list item and the highlights. */
+	private updateFindState(): void {
+		if (this.findCountEl) {
+			const query = this.findInput?.value.trim();
+			this.findCountEl.setText(!query ? '' : this.findMatches.length === 0
+				? 'No matches'
+				: `${this.findIndex + 1} of ${this.findMatches.length}`);
+		}
+		if (this.findListEl) {
+			Array.from(this.findListEl.children).forEach((item, index) => {
+				item.toggleClass('is-selected', index === this.findIndex);
+				if (index === this.findIndex) {
+					item.scrollIntoView({ block: 'nearest' });
+				}
+			});
 		}
+		this.drawFindHighlights();
+	}
+
+	/**
+	 * Draw a box over every matched word on the page images, the selected
+	 * match stronger than the others.
+	 */
+	private drawFindHighlights(): void {
+		if (!this.sn) return;
+		const { pageWidth, pageHeight } = this.sn;
+
+		this.pageFrameEls.forEach(frame => frame?.querySelectorAll('.supernote-find-highlight').forEach(el => el.remove()));
+		this.findMatches.forEach((match, index) => {
+			const frame = this.pageFrameEls[match.page];
+			if (!frame) return;
+			for (const box of match.boxes) {
+				const highlight = frame.createDiv('supernote-find-highlight');
+				highlight.toggleClass('is-selected', index === this.findIndex);
+				highlight.style.left = `${box.x / pageWidth * 100}%`;
+				highlight.style.top = `${box.y / pageHeight * 100}%`;
+				highlight.style.width = `${box.width / pageWidth * 100}%`;
+				highlight.style.height = `${box.height / pageHeight * 100}%`;
+			}
+		});
 	}
 
 	private createContentArea(container: HTMLElement): void {
@@ -390,6 +1442,7 @@ export class SupernoteView extends FileView {
 		if (!this.contentArea) return;
 
 		this.contentArea.empty();
+		this.disconnectObservers();
 
 		if (this.displayMode === 'png') {
 			await this.renderPngView();
@@ -399,21 +1452,57 @@ export class SupernoteView extends FileView {
 	}
 
 	private async renderPngView(): Promise<void> {
-		if (!this.sn || !this.images.length || !this.contentArea) return;
+		if (!this.sn || !this.sn.pages.length || !this.contentArea) return;
+
+		this.disconnectObservers();
+		this.pageImageEls = [];
+		this.pageFrameEls = [];
+
+		// Load pages shortly before they scroll into view and let go of the
+		// ones that are far away again
+		const scroller = this.containerEl.children[1] as HTMLElement;
+		this.prefetchObserver = new IntersectionObserver((entries) => {
+			const viewport = scroller.getBoundingClientRect();
+			for (const entry of entries) {
+				if (entry.isIntersecting) {
+					// Pages actually on screen go ahead of the prefetched ones
+					const bounds = entry.boundingClientRect;
+					const onScreen = bounds.bottom > viewport.top && bounds.top < viewport.bottom;
+					this.showPage(this.pageIndexOf(entry.target), onScreen ? RenderPriority.Visible : RenderPriority.Prefetch);
+				}
+			}
+		}, { root: scroller, rootMargin: PAGE_PREFETCH_MARGIN });
+		this.retainObserver = new IntersectionObserver((entries) => {
+			for (const entry of entries) {
+				if (!entry.isIntersecting) {
+					this.releasePage(this.pageIndexOf(entry.target));
+				}
+			}
+		}, { root: scroller, rootMargin: PAGE_RETAIN_MARGIN });
+		// The pages on screen give the page saved with the view state
+		this.visibleObserver = new IntersectionObserver((entries) => {
+			for (const entry of entries) {
+				if (entry.isIntersecting) {
+					this.visiblePages.add(this.pageIndexOf(entry.target));
+				} else {
+					this.visiblePages.delete(this.pageIndexOf(entry.target));
+				}
+			}
+		}, { root: scroller });
 
 		// Create table of contents if multiple pages
-		if (this.images.length > 1 && this.settings.showTOC) {
+		if (this.sn.pages.length > 1 && this.settings.showTOC) {
 			this.createTableOfContents();
 		}
 
 		// Render each page
-		for (let i = 0; i < this.images.length; i++) {
+		for (let i = 0; i < this.sn.pages.length; i++) {
 			const pageContainer = this.contentArea.createEl("div", {
 				cls: 'supernote-page-container',
 			});
 
 			// Page header with navigation
-			if (this.images.length > 1) {
+			if (this.sn.pages.length > 1) {
 				this.createPageHeader(pageContainer, i);
 			}
 
@@ -428,13 +1517,33 @@ export class SupernoteView extends FileView {
 			// Show page image
 			this.createImageSection(pageContent, i);
 		}
+		this.drawFindHighlights();
 	}
 
 	private async renderPdfView(): Promise<void> {
-		if (!this.pdfDataUrl || !this.contentArea) return;
+		if (!this.sn || !this.sn.pages.length || !this.contentArea) return;
 
 		const pdfContainer = this.contentArea.createDiv('supernote-pdf-container');
 
+		if (!this.pdfDataUrl) {
+			const status = pdfContainer.createDiv('supernote-pdf-status');
+			const progress = new ProgressBar(status, 'Building PDF…');
+			const generation = this.loadGeneration;
+			try {
+				await this.buildPdf(progress);
+			} catch (error) {
+				if (generation === this.loadGeneration && this.displayMode === 'pdf') {
+					console.error('Failed to build PDF:', error);
+					progress.remove();
+					status.setText(`Could not build PDF: ${error.message}`);
+				}
+				return;
+			}
+			// The user may have switched away or opened another note meanwhile
+			if (generation !== this.loadGeneration || this.displayMode !== 'pdf' || !this.pdfDataUrl) return;
+			status.remove();
+		}
+
 		pdfContainer.createEl('embed', {
 			attr: {
 				src: this.pdfDataUrl,
@@ -453,6 +1562,62 @@ export class SupernoteView extends FileView {
 		downloadLink.download = `${this.file.basename}.pdf`;
 	}
 
+	/**
+	 * Build the PDF from the rendered pages, reusing the ones already shown in
+	 * PNG mode. Switching back to PNG mode aborts the build.
+	 */
+	private async buildPdf(progress: ProgressBar): Promise<void> {
+		if (!this.sn || !this.noteBuffer) return;
+
+		this.pdfController?.abort();
+		const controller = new AbortController();
+		this.pdfController = controller;
+		const sn = this.sn;
+		const buffer = this.noteBuffer;
+		const total = sn.pages.length;
+
+		try {
+			let done = 0;
+			progress.update(0, total, `Building PDF… 0 of ${total} pages`);
+			const images = await Promise.all(sn.pages.map((_, i) =>
+				this.getPageImage(i)
+					.then(image => image.blob.arrayBuffer())
+					.catch(error => {
+						// Keep going, the PDF gets a placeholder for this page
+						if (isRenderCancelled(error)) throw error;
+						return null;
+					})
+					.then(image => {
+						done++;
+						if (!controller.signal.aborted) {
+							progress.update(done, total, `Building PDF… ${done} of ${total} pages`);
+						}
+						return image;
+					})
+			));
+			if (controller.signal.aborted) {
+				throw new Error('PDF build cancelled');
+			}
+
+			const pdfBuffer = vw.buildPDF(sn, images, buffer);
+			if (controller.signal.aborted) {
+				throw new Error('PDF build cancelled');
+			}
+			const blob = new Blob([pdfBuffer], { type: 'application/pdf' });
+			this.pdfDataUrl = URL.createObjectURL(blob);
+		} finally {
+			if (this.pdfController === controller) {
+				this.pdfController = null;
+			}
+			this.releaseHiddenPages();
+		}
+	}
+
+	private cancelPdfBuild(): void {
+		this.pdfController?.abort();
+		this.pdfController = null;
+	}
+
 	private createTableOfContents(): void {
 		if (!this.contentArea) return;
 
@@ -461,12 +1626,40 @@ export class SupernoteView extends FileView {
 
 		const tocList = tocContainer.createEl('ul', { cls: 'supernote-toc-list' });
 
-		for (let i = 0; i < this.images.length; i++) {
-			const tocItem = tocList.createEl('li');
-			tocItem.createEl('a', {
-				text: `Page ${i + 1}`,
-				attr: { href: `#page-${i + 1}` }
+		if (this.titles.length === 0) {
+			for (let i = 0; i < this.images.length; i++) {
+				const tocItem = tocList.createEl('li');
+				tocItem.createEl('a', {
+					text: `Page ${i + 1}`,
+					attr: { href: `#page-${i + 1}` }
+				});
+			}
+			return;
+		}
+
+		// Nest titles by level, the same way as the PDF outline
+		const stack: { level: number; item: HTMLElement; list?: HTMLElement }[] = [];
+		for (const title of this.titles) {
+			while (stack.length > 0 && stack[stack.length - 1].level >= title.level) {
+				stack.pop();
+			}
+			const parent = stack[stack.length - 1];
+			let list: HTMLElement = tocList;
+			if (parent) {
+				parent.list = parent.list ?? parent.item.createEl('ul', { cls: 'supernote-toc-list' });
+				list = parent.list;
+			}
+
+			const tocItem = list.createEl('li');
+			const link = tocItem.createEl('a', {
+				text: title.text,
+				attr: { href: `#page-${title.page + 1}` }
+			});
+			link.addEventListener('click', (event) => {
+				event.preventDefault();
+				this.scrollToPage(title.page, title.rect.y);
 			});
+			stack.push({ level: title.level, item: tocItem });
 		}
 	}
 
@@ -478,6 +1671,20 @@ export class SupernoteView extends FileView {
 			attr: { id: `page-${pageIndex + 1}` }
 		});
 
+		const copyLinkBtn = header.createEl('button', {
+			text: 'Copy link',
+			attr: { 'aria-label': 'Copy link to this page' }
+		});
+		copyLinkBtn.addEventListener('click', () => this.copyPageLink(pageIndex));
+
+		const tags = keywordTags(this.keywords.filter(keyword => keyword.page === pageIndex));
+		if (tags) {
+			const tagsEl = header.createDiv('supernote-page-tags');
+			for (const tag of tags.split(' ')) {
+				tagsEl.createSpan({ text: tag, cls: 'tag' });
+			}
+		}
+
 		// Navigation buttons for multi-page documents
 		if (this.images.length > 1) {
 			const navGroup = header.createDiv('supernote-page-nav');
@@ -527,19 +1734,34 @@ export class SupernoteView extends FileView {
 	}
 
 	private createImageSection(container: HTMLElement, pageIndex: number): void {
-		const imageContainer = container.createDiv('supernote-image-section');
+		if (!this.sn) return;
 
-		const imgElement = imageContainer.createEl("img", {
+		const imageContainer = container.createDiv('supernote-image-section');
+		imageContainer.dataset.page = String(pageIndex);
+
+		// Start with a placeholder of the final size so the scroll height is
+		// right before any page has been rendered
+		const frame = imageContainer.createDiv('supernote-page-frame');
+		this.pageFrameEls[pageIndex] = frame;
+		const imgElement = frame.createEl("img", {
+			cls: 'supernote-page-placeholder',
 			attr: {
-				src: this.images[pageIndex],
 				alt: `Page ${pageIndex + 1}`,
 				draggable: 'true'
 			}
 		});
+		const maxDim = this.settings.noteImageMaxDim;
+		const { pageWidth, pageHeight } = this.sn;
+		imgElement.style.width = `${Math.min(pageWidth, maxDim, maxDim * pageWidth / pageHeight)}px`;
+		imgElement.style.aspectRatio = `${pageWidth} / ${pageHeight}`;
+		this.pageImageEls[pageIndex] = imgElement;
+		this.prefetchObserver?.observe(imageContainer);
+		this.retainObserver?.observe(imageContainer);
+		this.visibleObserver?.observe(imageContainer);
 
 		// Apply styling
-		imgElement.style.maxWidth = `${this.settings.noteImageMaxDim}px`;
-		imgElement.style.maxHeight = `${this.settings.noteImageMaxDim}px`;
+		imgElement.style.maxWidth = `${maxDim}px`;
+		imgElement.style.maxHeight = `${maxDim}px`;
 
 		if (this.settings.invertColorsWhenDark) {
 			imgElement.addClass("supernote-invert-dark");
@@ -559,11 +1781,188 @@ export class SupernoteView extends FileView {
 				text: 'Zoom',
 				cls: 'mod-cta'
 			});
-			zoomBtn.addEventListener('click', () => this.zoomImage(imgElement));
+			zoomBtn.addEventListener('click', () => this.zoomImage(pageIndex));
+		}
+	}
+
+	private pageIndexOf(element: Element): number {
+		return parseInt((element as HTMLElement).dataset.page ?? '-1', 10);
+	}
+
+	/**
+	 * Render a page, reusing an in-flight request for the same page.
+	 */
+	private getPageImage(pageIndex: number, priority: number = RenderPriority.Visible): Promise<ViewPageImage> {
+		const existing = this.images[pageIndex];
+		if (existing) {
+			return Promise.resolve(existing);
+		}
+
+		let request = this.pageRequests.get(pageIndex);
+		if (!request) {
+			if (!this.sn || !this.noteBuffer || !this.converter) {
+				return Promise.reject(new Error('Note is not loaded'));
+			}
+			const generation = this.loadGeneration;
+			const controller = new AbortController();
+			this.pageControllers.set(pageIndex, controller);
+			request = this.converter.convertPage(this.sn, pageIndex + 1, this.noteBuffer, {
+				sourcePath: this.file?.path,
+				priority,
+				signal: controller.signal,
+				render: this.renderOptions,
+			})
+				.then(png => {
+					const blob = new Blob([png], { type: 'image/png' });
+					const image = { blob, url: URL.createObjectURL(blob) };
+					if (generation === this.loadGeneration) {
+						this.images[pageIndex] = image;
+					}
+					return image;
+				})
+				.finally(() => {
+					if (this.pageControllers.get(pageIndex) === controller) {
+						this.pageRequests.delete(pageIndex);
+						this.pageControllers.delete(pageIndex);
+					}
+				});
+			this.pageRequests.set(pageIndex, request);
+		}
+		return request;
+	}
+
+	private async showPage(pageIndex: number, priority: number): Promise<void> {
+		const imgElement = this.pageImageEls[pageIndex];
+		if (!imgElement || imgElement.getAttribute('src')) return;
+
+		const generation = this.loadGeneration;
+		try {
+			const image = await this.getPageImage(pageIndex, priority);
+			if (generation !== this.loadGeneration || this.pageImageEls[pageIndex] !== imgElement) return;
+			imgElement.src = image.url;
+			imgElement.removeClass('supernote-page-placeholder');
+		} catch (error) {
+			if (generation !== this.loadGeneration || isRenderCancelled(error)) return;
+			console.error(`Failed to render page ${pageIndex + 1}:`, error);
+			imgElement.addClass('supernote-page-error');
+			imgElement.alt = `Page ${pageIndex + 1} could not be rendered: ${error.message}`;
+			imgElement.title = imgElement.alt;
+		}
+	}
+
+	private releasePage(pageIndex: number): void {
+		// Drop the page from the render queue if it has not been rendered yet
+		this.pageControllers.get(pageIndex)?.abort();
+		this.pageControllers.delete(pageIndex);
+		this.pageRequests.delete(pageIndex);
+
+		const imgElement = this.pageImageEls[pageIndex];
+		if (!imgElement || !imgElement.getAttribute('src')) return;
+
+		imgElement.removeAttribute('src');
+		imgElement.addClass('supernote-page-placeholder');
+		const image = this.images[pageIndex];
+		if (image) {
+			URL.revokeObjectURL(image.url);
+			this.images[pageIndex] = undefined;
+		}
+	}
+
+	/**
+	 * Let go of rendered pages no image shows, such as the ones only the PDF
+	 * needed.
+	 */
+	private releaseHiddenPages(): void {
+		this.images.forEach((image, pageIndex) => {
+			if (image && this.pageImageEls[pageIndex]?.getAttribute('src') !== image.url) {
+				URL.revokeObjectURL(image.url);
+				this.images[pageIndex] = undefined;
+			}
+		});
+	}
+
+	private disconnectObservers(): void {
+		this.prefetchObserver?.disconnect();
+		this.retainObserver?.disconnect();
+		this.visibleObserver?.disconnect();
+		this.prefetchObserver = null;
+		this.retainObserver = null;
+		this.visibleObserver = null;
+		this.visiblePages.clear();
+	}
+
+	private resetPages(): void {
+		this.clearRenderedPages();
+		this.noteBuffer = null;
+		this.pageHashes = [];
+	}
+
+	/**
+	 * Drop rendered pages and the PDF but keep the loaded note, so pages are
+	 * drawn again with the current render options.
+	 */
+	private clearRenderedPages(): void {
+		this.loadGeneration++;
+		this.cancelPdfBuild();
+		if (this.pdfDataUrl) {
+			URL.revokeObjectURL(this.pdfDataUrl);
+			this.pdfDataUrl = null;
+		}
+		this.disconnectObservers();
+		this.pageControllers.forEach(controller => controller.abort());
+		this.pageControllers.clear();
+		this.pageRequests.clear();
+		this.pageImageEls = [];
+		this.pageFrameEls = [];
+		this.images.forEach(image => image && URL.revokeObjectURL(image.url));
+		this.images = this.sn ? new Array(this.sn.pages.length) : [];
+	}
+
+	/**
+	 * Layers with ink on at least one page, in drawing order.
+	 */
+	private getNoteLayers(): NoteLayerName[] {
+		const layers: NoteLayerName[] = ['MAINLAYER', 'LAYER1', 'LAYER2', 'LAYER3'];
+		const pages = this.sn?.pages ?? [];
+		return layers.filter(name => pages.some(page => page[name]?.bitmapBuffer?.length));
+	}
+
+	private showLayerMenu(event: MouseEvent): void {
+		const { layers, includeBackground } = this.renderOptions;
+		const menu = new Menu();
+
+		menu.addItem(item => item
+			.setTitle('Template')
+			.setChecked(includeBackground !== false)
+			.onClick(() => this.setRenderOptions({ ...this.renderOptions, includeBackground: includeBackground === false })));
+
+		const noteLayers = this.getNoteLayers();
+		for (const name of noteLayers) {
+			const shown = !layers || layers.includes(name);
+			menu.addItem(item => item
+				.setTitle(name === 'MAINLAYER' ? 'Main layer' : `Layer ${name.substring(5)}`)
+				.setChecked(shown)
+				.onClick(() => {
+					const current = layers ?? noteLayers;
+					const next = shown ? current.filter(layer => layer !== name) : noteLayers.filter(layer => layer === name || current.includes(layer));
+					this.setRenderOptions({
+						...this.renderOptions,
+						layers: next.length === noteLayers.length ? undefined : next,
+					});
+				}));
 		}
+
+		menu.showAtMouseEvent(event);
+	}
+
+	private setRenderOptions(options: RenderOptions): void {
+		this.renderOptions = options;
+		this.clearRenderedPages();
+		this.renderContent();
 	}
 
 	private switchToPngMode(): void {
+		this.cancelPdfBuild();
 		this.displayMode = 'png';
 		this.updateModeButtons();
 		this.renderContent();
@@ -582,42 +1981,99 @@ export class SupernoteView extends FileView {
 		}
 	}
 
-	private scrollToPage(pageIndex: number): void {
+	/**
+	 * Scroll to a page, or to a position on it given in page pixels.
+	 */
+	private scrollToPage(pageIndex: number, y?: number): void {
 		if (!this.contentArea) return;
 
+		const imageEl = this.pageImageEls[pageIndex];
+		if (y !== undefined && imageEl && this.sn) {
+			const scroller = this.containerEl.children[1] as HTMLElement;
+			const top = imageEl.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+			scroller.scrollTo({ top: top + y / this.sn.pageHeight * imageEl.clientHeight, behavior: 'smooth' });
+			return;
+		}
+
 		const targetElement = this.contentArea.querySelector(`#page-${pageIndex + 1}`);
 		if (targetElement) {
 			targetElement.scrollIntoView({ behavior: 'smooth' });
 		}
 	}
 
+	/**
+	 * Copy a wiki link that opens this page, e.g. [[Meeting.note#page=3]].
+	 */
+	private async copyPageLink(pageIndex: number): Promise<void> {
+		const linktext = this.app.metadataCache.fileToLinktext(this.file, '', false);
+		await navigator.clipboard.writeText(`[[${linktext}#page=${pageIndex + 1}]]`);
+		new Notice(`Copied link to page ${pageIndex + 1}`);
+	}
+
 	private async savePageImage(pageIndex: number): Promise<void> {
+		if (!this.sn || !this.noteBuffer || !this.converter) return;
+
+		const render = this.exportOptions();
 		const filename = await this.app.fileManager.getAvailablePathForAttachment(
-			`${this.file.basename}-page-${pageIndex + 1}.png`
+			`${this.file.basename}-page-${pageIndex + 1}.${imageExtension(render.output)}`
 		);
-		const buffer = dataUrlToBuffer(this.images[pageIndex]);
-		await this.app.vault.createBinary(filename, buffer);
+		let image: ArrayBuffer;
+		try {
+			image = await this.converter.convertPage(this.sn, pageIndex + 1, this.noteBuffer, {
+				sourcePath: this.file.path,
+				priority: RenderPriority.Visible,
+				render,
+			});
+		} catch (error) {
+			if (isRenderCancelled(error)) return;
+			console.error(`Failed to render page ${pageIndex + 1}:`, error);
+			new Notice(`Page ${pageIndex + 1} could not be rendered: ${error.message}`);
+			return;
+		}
+		await this.app.vault.createBinary(filename, image);
 		new Notice(`Saved ${filename}`);
 	}
 
-	private zoomImage(imgElement: HTMLImageElement): void {
+	/**
+	 * The view's layers, encoded with the default export profile.
+	 */
+	private exportOptions(): RenderOptions {
+		return { ...this.renderOptions, output: exportRenderOptions(this.settings).output };
+	}
+
+	private async zoomImage(pageIndex: number): Promise<void> {
 		// Create a modal with the full-size image
-		const modal = new ImageZoomModal(this.app, imgElement.src, this.file.basename);
+		let image: ViewPageImage;
+		try {
+			image = await this.getPageImage(pageIndex);
+		} catch (error) {
+			if (isRenderCancelled(error)) return;
+			console.error(`Failed to render page ${pageIndex + 1}:`, error);
+			new Notice(`Page ${pageIndex + 1} could not be rendered: ${error.message}`);
+			return;
+		}
+		const modal = new ImageZoomModal(this.app, image.blob, this.file.basename);
 		modal.open();
 	}
 
 	private async exportAsPng(): Promise<void> {
 		if (!this.file) return;
-		await vw.attachNoteFiles(this.file);
+		await vw.attachNoteFiles(this.file, this.exportOptions());
 		new Notice('Exported as PNG images');
 	}
 
 	private async exportAsPdf(): Promise<void> {
 		if (!this.file) return;
-		await vw.exportToPDF(this.file);
+		await vw.exportToPDF(this.file, this.exportOptions());
 		new Notice('Exported as PDF');
 	}
 
+	private async exportAsSvg(): Promise<void> {
+		if (!this.file) return;
+		await vw.attachSvgFiles(this.file, this.renderOptions);
+		new Notice('Exported as SVG');
+	}
+
 	private async exportAsMarkdown(): Promise<void> {
 		if (!this.file) return;
 		await vw.attachMarkdownFile(this.file);
@@ -625,16 +2081,19 @@ export class SupernoteView extends FileView {
 	}
 
 	async onClose() {
-		// Clean up PDF data URL
-		if (this.pdfDataUrl) {
-			URL.revokeObjectURL(this.pdfDataUrl);
-		}
+		// Also cleans up the PDF data URL
+		this.resetPages();
+		this.converter = null;
 	}
 }
 
 // Helper modal for image zooming
 class ImageZoomModal extends Modal {
-	constructor(app: App, private imageSrc: string, private filename: string) {
+	private imageSrc: string | null = null;
+
+	// Takes the blob rather than the view's URL, which the view may revoke
+	// while the modal is open
+	constructor(app: App, private image: Blob, private filename: string) {
 		super(app);
 	}
 
@@ -644,6 +2103,7 @@ class ImageZoomModal extends Modal {
 
 		const container = contentEl.createDiv('supernote-zoom-container');
 
+		this.imageSrc = URL.createObjectURL(this.image);
 		const img = container.createEl('img', {
 			attr: {
 				src: this.imageSrc,
@@ -680,12 +2140,25 @@ class ImageZoomModal extends Modal {
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
+		if (this.imageSrc) {
+			URL.revokeObjectURL(this.imageSrc);
+			this.imageSrc = null;
+		}
 	}
 }
 
 export default class SupernotePlugin extends Plugin {
 	settings: SupernotePluginSettings;
 	private virtualFolderProvider: VirtualFolderProvider | null = null;
+	syncEngine: SyncEngine;
+	autoSync: AutoSyncService;
+	searchIndex: SearchIndex;
+	/** Pending export refreshes by note path, so a burst of writes refreshes once. */
+	private exportRefreshes = new Map<string, Debouncer<[TFile], void>>();
+	/** Last queued export refresh of each note; the next one waits for it. */
+	private runningRefreshes = new Map<string, Promise<void>>();
+	/** Pending search index updates by note path, so a burst of writes parses once. */
+	private indexRequests = new Map<string, Debouncer<[TFile], void>>();
 
 	async onload() {
 		// Install polyfills before any other code runs
@@ -693,12 +2166,55 @@ export default class SupernotePlugin extends Plugin {
 
 		await this.loadSettings();
 		vw = new VaultWriter(this.app, this.settings);
+		pageCache = new PageCache(this.app, this.settings, `${this.manifest.dir}/cache`);
+		this.searchIndex = new SearchIndex(this.app, this.settings, `${this.manifest.dir}/search-index.json`);
+
+		// Drop rendered pages of notes that change or go away
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (file instanceof TFile && file.extension === 'note') {
+				pageCache?.invalidatePath(file.path);
+				if (this.settings.searchIndexEnabled) {
+					this.requestIndex(file);
+				}
+				if (this.settings.refreshExportsOnChange) {
+					this.requestExportRefresh(file);
+				}
+			}
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (file instanceof TFile && file.extension === 'note') {
+				pageCache?.invalidatePath(file.path);
+				this.searchIndex.remove(file.path);
+			}
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			pageCache?.renamePath(oldPath, file.path);
+			this.searchIndex.rename(oldPath, file.path);
+		}));
+
+		// Index the handwriting of all notes once the vault is loaded; create
+		// events fire for every file before that
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.searchIndexEnabled) {
+				this.searchIndex.indexAll();
+			}
+			this.registerEvent(this.app.vault.on('create', (file) => {
+				if (file instanceof TFile && file.extension === 'note' && this.settings.searchIndexEnabled) {
+					this.searchIndex.indexFile(file);
+				}
+			}));
+		});
 
 		// Initialize virtual folder provider for file explorer integration
 		const batchFileManager = new BatchFileManager(this.app, this.settings);
 		this.virtualFolderProvider = new VirtualFolderProvider(this.app, batchFileManager);
 		await this.virtualFolderProvider.initialize();
 
+		this.syncEngine = new SyncEngine(this.app, this.settings, batchFileManager, `${this.manifest.dir}/sync-manifest.json`);
+		vw.syncEngine = this.syncEngine;
+		this.autoSync = new AutoSyncService(this.app, this.settings, this.syncEngine, vw, `${this.manifest.dir}/sync.log`);
+		this.virtualFolderProvider.onConnected(() => this.autoSync.handleDeviceConnected());
+
 		this.addSettingTab(new SupernoteSettingTab(this.app, this));
 
 
@@ -768,6 +2284,22 @@ export default class SupernotePlugin extends Plugin {
 						});
 				});
 
+				menu.addItem((item) => {
+					item
+						.setTitle(`Attach ${noteFiles.length > 1 ? 'all' : 'as'} SVG`)
+						.setIcon('pen-tool')
+						.onClick(async () => {
+							try {
+								for (const file of noteFiles) {
+									await vw.attachSvgFiles(file);
+								}
+								new Notice(`Attached ${noteFiles.length} file${noteFiles.length > 1 ? 's' : ''} as SVG`);
+							} catch (err: any) {
+								new ErrorModal(this.app, err).open();
+							}
+						});
+				});
+
 				menu.addItem((item) => {
 					item
 						.setTitle(`Attach ${noteFiles.length > 1 ? 'all' : 'as'} Markdown`)
@@ -867,6 +2399,20 @@ export default class SupernotePlugin extends Plugin {
 						});
 				});
 
+				menu.addItem((item) => {
+					item
+						.setTitle('Attach as SVG')
+						.setIcon('pen-tool')
+						.onClick(async () => {
+							try {
+								await vw.attachSvgFiles(file);
+								new Notice(`Attached ${file.name} as SVG`);
+							} catch (err: any) {
+								new ErrorModal(this.app, err).open();
+							}
+						});
+				});
+
 				menu.addItem((item) => {
 					item
 						.setTitle('Attach as Markdown')
@@ -904,6 +2450,18 @@ export default class SupernotePlugin extends Plugin {
 			})
 		);
 
+		this.addCommand({
+			id: 'search-supernote-notes',
+			name: 'Search handwritten notes',
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.searchIndexEnabled) return false;
+				if (!checking) {
+					new NoteSearchModal(this.app, this.settings, this.searchIndex).open();
+				}
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: 'attach-supernote-file-from-device',
 			name: 'Attach Supernote file from device',
@@ -978,6 +2536,58 @@ export default class SupernotePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'supernote-sync-folders',
+			name: 'Sync Supernote folders',
+			callback: async () => {
+				if (this.settings.directConnectIP.length === 0) {
+					new DirectConnectErrorModal(this.app, this.settings, new Error("IP is unset")).open();
+					return;
+				}
+				if (this.settings.syncFolderPairs.length === 0) {
+					new Notice('No sync folders configured. Add folder pairs in the Supernote settings.');
+					return;
+				}
+				try {
+					new Notice('Syncing Supernote folders...');
+					showSyncResult(await this.syncEngine.syncAll());
+				} catch (err: any) {
+					new ErrorModal(this.app, err).open();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'supernote-pull-notes',
+			name: 'Pull new Supernote notes now',
+			callback: async () => {
+				if (this.settings.directConnectIP.length === 0) {
+					new DirectConnectErrorModal(this.app, this.settings, new Error("IP is unset")).open();
+					return;
+				}
+				if (this.settings.syncFolderPairs.length === 0) {
+					new Notice('No sync folders configured. Add folder pairs in the Supernote settings.');
+					return;
+				}
+				new Notice('Pulling new Supernote notes...');
+				await this.autoSync.run();
+			}
+		});
+
+		this.addCommand({
+			id: 'supernote-cancel-sync',
+			name: 'Cancel Supernote sync',
+			checkCallback: (checking: boolean) => {
+				if (!this.autoSync.isRunning()) {
+					return false;
+				}
+				if (!checking) {
+					this.autoSync.cancel();
+				}
+				return true;
+			}
+		});
+
 		this.addCommand({
 			id: 'supernote-expand-folder',
 			name: 'Expand Supernote Virtual Folder',
@@ -1007,6 +2617,48 @@ export default class SupernotePlugin extends Plugin {
 		);
 		this.registerExtensions(['note'], VIEW_TYPE_SUPERNOTE);
 
+		// Render ![[name.note#page=N]] embeds from the note's pages
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			el.querySelectorAll<HTMLElement>('.internal-embed[src]').forEach(embed => {
+				const src = embed.getAttribute('src') ?? '';
+				const separator = src.indexOf('#');
+				const linkpath = separator === -1 ? src : src.substring(0, separator);
+				const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+				if (file?.extension === 'note') {
+					ctx.addChild(new NoteEmbed(embed, this.app, this.settings, file, embedOptionsFromSubpath(separator === -1 ? '' : src.substring(separator))));
+				}
+			});
+		});
+
+		// obsidian://supernote?file=<vault or device path>&page=N
+		this.registerObsidianProtocolHandler('supernote', async (params) => {
+			const file = params.file ? await this.resolveNoteFile(params.file, '') : null;
+			if (!file) {
+				new Notice(`Supernote note not found: ${params.file ?? ''}`);
+				return;
+			}
+			const page = parseInt(params.page ?? '1', 10);
+			await this.app.workspace.getLeaf(false).openFile(file, {
+				eState: { page: page > 0 ? page - 1 : 0 },
+			});
+		});
+
+		// Show pages inline from ```supernote blocks, in Reading view and Live Preview
+		this.registerMarkdownCodeBlockProcessor('supernote', async (source, el, ctx) => {
+			try {
+				const { source: notePath, layers, ...options } = parseCodeBlock(source);
+				const file = await this.resolveNoteFile(notePath, ctx.sourcePath);
+				if (!file) {
+					throw new CodeBlockError(`Note not found: ${notePath}`);
+				}
+				const render = layers ? exportRenderOptions({ ...this.settings, exportLayers: layers }, null) : undefined;
+				ctx.addChild(new NoteEmbed(el, this.app, this.settings, file, { ...options, render }));
+			} catch (error) {
+				if (!(error instanceof CodeBlockError)) throw error;
+				el.createDiv({ cls: 'supernote-embed-error', text: error.message });
+			}
+		});
+
 		this.addCommand({
 			id: 'insert-supernote-screen-mirror-image',
 			name: 'Insert a Supernote screen mirroring image as attachment',
@@ -1087,6 +2739,44 @@ export default class SupernotePlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'export-supernote-note-as-files-with-profile',
+			name: 'Export this Supernote note as a markdown and image files with a profile...',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== 'note') return false;
+				if (!checking) {
+					new ExportProfileModal(this.app, this.settings.exportProfiles, async (profile) => {
+						try {
+							await vw.attachNoteFiles(file, exportRenderOptions(this.settings, profile));
+						} catch (err: any) {
+							new ErrorModal(this.app, err).open();
+						}
+					}).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'export-supernote-note-as-pdf-with-profile',
+			name: 'Export this Supernote note as PDF with a profile...',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (file?.extension !== 'note') return false;
+				if (!checking) {
+					new ExportProfileModal(this.app, this.settings.exportProfiles, async (profile) => {
+						try {
+							await vw.exportToPDF(file, exportRenderOptions(this.settings, profile));
+						} catch (err: any) {
+							new ErrorModal(this.app, err).open();
+						}
+					}).open();
+				}
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: 'export-supernote-note-as-markdown',
 			name: 'Export this Supernote note as a markdown file attachment',
@@ -1114,7 +2804,57 @@ export default class SupernotePlugin extends Plugin {
 		});
 	}
 
+	/** Refresh a note's export once its writes have settled. */
+	private requestExportRefresh(file: TFile) {
+		let refresh = this.exportRefreshes.get(file.path);
+		if (!refresh) {
+			refresh = debounce((file: TFile) => this.refreshExport(file), 500, true);
+			this.exportRefreshes.set(file.path, refresh);
+		}
+		refresh(file);
+	}
+
+	/** Index a note's text once its writes have settled. */
+	private requestIndex(file: TFile) {
+		let index = this.indexRequests.get(file.path);
+		if (!index) {
+			index = debounce((file: TFile) => {
+				this.indexRequests.delete(file.path);
+				this.searchIndex.indexFile(file);
+			}, 500, true);
+			this.indexRequests.set(file.path, index);
+		}
+		index(file);
+	}
+
+	/** Refresh a note's export after any refresh of it that is still running. */
+	private refreshExport(file: TFile): Promise<void> {
+		this.exportRefreshes.delete(file.path);
+		const previous = this.runningRefreshes.get(file.path) ?? Promise.resolve();
+		const refresh = previous
+			.then(() => vw.refreshExport(file))
+			.catch(error => console.error(`Failed to refresh the export of ${file.path}:`, error))
+			.finally(() => {
+				if (this.runningRefreshes.get(file.path) === refresh) {
+					this.runningRefreshes.delete(file.path);
+				}
+			});
+		this.runningRefreshes.set(file.path, refresh);
+		return refresh;
+	}
+
 	onunload() {
+		// Stop any background pull
+		this.autoSync?.cancel();
+		this.exportRefreshes.forEach(refresh => refresh.cancel());
+		this.exportRefreshes.clear();
+		this.indexRequests.forEach(index => index.cancel());
+		this.indexRequests.clear();
+		terminateWorkerPool();
+		pageCache?.flush();
+		this.searchIndex.flush();
+		pageCache = null;
+
 		// Clean up virtual folder provider
 		if (this.virtualFolderProvider) {
 			this.virtualFolderProvider.cleanup();
@@ -1144,15 +2884,37 @@ export default class SupernotePlugin extends Plugin {
 		workspace.revealLeaf(leaf);
 	}
 
+	/**
+	 * Find a note by vault path or link text, or by its path on the device
+	 * when it has been synced into the vault.
+	 */
+	async resolveNoteFile(path: string, sourcePath: string): Promise<TFile | null> {
+		const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+		if (file?.extension === 'note') {
+			return file;
+		}
+		const vaultPath = await this.syncEngine?.getVaultPath(path);
+		return vaultPath ? this.app.vault.getFileByPath(vaultPath) : null;
+	}
+
 
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Profiles are edited in place, keep the defaults untouched
+		this.settings.exportProfiles = this.settings.exportProfiles.map(profile => ({ ...profile }));
+		this.settings.syncFolderPairs = this.settings.syncFolderPairs.map(pair => ({ ...pair }));
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
+
+	async clearPageCache() {
+		if (!pageCache) return;
+		await pageCache.clear();
+		new Notice('Supernote page cache cleared');
+	}
 }
 
 
@@ -1196,3 +2958,32 @@ class ErrorModal extends Modal {
 		contentEl.empty();
 	}
 }
+
+/**
+ * Asks which export profile to use for a single export.
+ */
+class ExportProfileModal extends SuggestModal<ExportProfile> {
+	private profiles: ExportProfile[];
+	private onChoose: (profile: ExportProfile) => void;
+
+	constructor(app: App, profiles: ExportProfile[], onChoose: (profile: ExportProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Export with profile...');
+	}
+
+	getSuggestions(query: string): ExportProfile[] {
+		return this.profiles.filter(profile => profile.name.toLowerCase().includes(query.toLowerCase()));
+	}
+
+	renderSuggestion(profile: ExportProfile, el: HTMLElement) {
+		el.createDiv({ text: profile.name });
+		const quality = profile.format === 'png' ? '' : `, quality ${profile.quality}`;
+		el.createEl('small', { text: `${profile.format.toUpperCase()} at ${profile.scale * 100}%${quality}, ${profile.bitDepth}-bit` });
+	}
+
+	onChooseSuggestion(profile: ExportProfile) {
+		this.onChoose(profile);
+	}
+}
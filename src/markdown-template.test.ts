@@ -0,0 +1,67 @@
+import { DEFAULT_MARKDOWN_TEMPLATE, formatDate, renderTemplate, TemplateError } from './markdown-template';
+
+describe('markdown template', () => {
+    it('should reproduce the classic export with the default template', () => {
+        const output = renderTemplate(DEFAULT_MARKDOWN_TEMPLATE, {
+            note: { noteLink: '[[Meeting.note]]' },
+            pages: [
+                { pageNumber: 1, text: 'Agenda', image: '![[Meeting-0.png]]', renderFailed: false },
+                { pageNumber: 2, text: '', image: '', renderFailed: true },
+            ]
+        });
+
+        expect(output).toBe(
+            '[[Meeting.note]]\n' +
+            '## Page 1\n\nAgenda\n![[Meeting-0.png]]\n' +
+            '## Page 2\n\n*Page 2 could not be rendered.*\n'
+        );
+    });
+
+    it('should place title headings and keyword tags at their page', () => {
+        const output = renderTemplate(DEFAULT_MARKDOWN_TEMPLATE, {
+            note: { noteLink: '[[Meeting.note]]' },
+            pages: [{ pageNumber: 1, text: 'Agenda', pageHeadings: '### Goals', pageTags: '#work' }]
+        });
+
+        expect(output).toBe('[[Meeting.note]]\n## Page 1\n\n### Goals\n\nAgenda\n#work\n');
+    });
+
+    it('should make note values available inside pages', () => {
+        const output = renderTemplate('{{#pages}}{{noteName}} p{{pageNumber}};{{/pages}}', {
+            note: { noteName: 'Journal' },
+            pages: [{ pageNumber: 1 }, { pageNumber: 2 }]
+        });
+
+        expect(output).toBe('Journal p1;Journal p2;');
+    });
+
+    it('should put the page prefix in front of every page', () => {
+        const output = renderTemplate('{{#pages}}p{{pageNumber}};{{/pages}}', {
+            note: {},
+            pages: [{ pageNumber: 1 }, { pageNumber: 2 }]
+        }, { pagePrefix: index => `<${index}>` });
+
+        expect(output).toBe('<0>p1;<1>p2;');
+    });
+
+    it('should pick the else branch for empty values', () => {
+        const template = '{{#if keywords}}tags: {{keywords}}{{else}}no tags{{/if}}';
+
+        expect(renderTemplate(template, { note: { keywords: 'work' }, pages: [] })).toBe('tags: work');
+        expect(renderTemplate(template, { note: { keywords: '' }, pages: [] })).toBe('no tags');
+    });
+
+    it('should format dates', () => {
+        const created = new Date(2024, 2, 5, 9, 7);
+
+        expect(renderTemplate('{{created}} {{created:DD/MM/YYYY HH:mm}}', { note: { created }, pages: [] }))
+            .toBe('2024-03-05 05/03/2024 09:07');
+        expect(formatDate(created, 'YYYYMMDD')).toBe('20240305');
+    });
+
+    it('should reject unbalanced blocks', () => {
+        expect(() => renderTemplate('{{#if text}}open', { note: {}, pages: [] })).toThrow(TemplateError);
+        expect(() => renderTemplate('{{/pages}}', { note: {}, pages: [] })).toThrow('Unexpected {{/pages}}');
+        expect(() => renderTemplate('{{#pages}}{{#pages}}{{/pages}}{{/pages}}', { note: {}, pages: [] })).toThrow(TemplateError);
+    });
+});
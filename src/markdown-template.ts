@@ -0,0 +1,198 @@
+/** A value a template variable can take. */
+export type TemplateValue = string | number | boolean | Date | null | undefined;
+
+export type TemplateValues = Record<string, TemplateValue>;
+
+/** Everything a Markdown export template can refer to. */
+export interface NoteTemplateData {
+    /** Values for the whole note. */
+    note: TemplateValues;
+    /** Values for each page, used inside {{#pages}} blocks. */
+    pages: TemplateValues[];
+}
+
+/**
+ * Template used when none is configured. Produces a link to the note, then
+ * for every page a heading, the page's titles as subheadings, the recognized
+ * text, its keywords as tags and the image.
+ */
+export const DEFAULT_MARKDOWN_TEMPLATE = `{{noteLink}}
+{{#pages}}
+## Page {{pageNumber}}
+
+{{#if pageHeadings}}
+{{pageHeadings}}
+
+{{/if}}
+{{#if text}}
+{{text}}
+{{/if}}
+{{#if pageTags}}
+{{pageTags}}
+{{/if}}
+{{#if image}}
+{{image}}
+{{/if}}
+{{#if renderFailed}}
+*Page {{pageNumber}} could not be rendered.*
+{{/if}}
+{{/pages}}
+`;
+
+export interface RenderTemplateOptions {
+    /** Text put in front of every page's output, e.g. a marker comment. */
+    pagePrefix?: (pageIndex: number) => string;
+}
+
+/** A template that does not parse, e.g. an {{#if}} without {{/if}}. */
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | { type: 'variable'; name: string; format?: string }
+    | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { type: 'pages'; body: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+/**
+ * Block tags on a line of their own take the whole line with them, so
+ * templates can be laid out readably without leaving blank lines behind.
+ */
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:#|\/|else\b)[^}]*\}\})[ \t]*\r?\n/gm;
+
+/**
+ * Parse a template into a tree, checking that blocks are balanced.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+    const source = template.replace(STANDALONE_BLOCK_TAG, '$1');
+
+    // Open blocks, innermost last; the root collects top level nodes
+    const root: TemplateNode[] = [];
+    const stack: { tag: string; node?: TemplateNode; nodes: TemplateNode[] }[] = [{ tag: '', nodes: root }];
+    const current = () => stack[stack.length - 1];
+
+    let last = 0;
+    let match: RegExpExecArray | null;
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(source)) !== null) {
+        if (match.index > last) {
+            current().nodes.push({ type: 'text', text: source.substring(last, match.index) });
+        }
+        last = match.index + match[0].length;
+
+        const tag = match[1];
+        if (tag.startsWith('#if ')) {
+            const node: TemplateNode = { type: 'if', name: tag.substring(4).trim(), then: [], otherwise: [] };
+            current().nodes.push(node);
+            stack.push({ tag: 'if', node, nodes: node.then });
+        } else if (tag === '#pages') {
+            if (stack.some(block => block.tag === 'pages')) {
+                throw new TemplateError('{{#pages}} blocks cannot be nested');
+            }
+            const node: TemplateNode = { type: 'pages', body: [] };
+            current().nodes.push(node);
+            stack.push({ tag: 'pages', node, nodes: node.body });
+        } else if (tag === 'else') {
+            const block = current();
+            if (block.tag !== 'if' || block.node?.type !== 'if' || block.nodes === block.node.otherwise) {
+                throw new TemplateError('{{else}} outside of an {{#if}} block');
+            }
+            block.nodes = block.node.otherwise;
+        } else if (tag.startsWith('/')) {
+            const name = tag.substring(1).trim();
+            if (current().tag !== name) {
+                throw new TemplateError(`Unexpected {{/${name}}}`);
+            }
+            stack.pop();
+        } else if (tag.startsWith('#')) {
+            throw new TemplateError(`Unknown block {{${tag}}}`);
+        } else {
+            const separator = tag.indexOf(':');
+            current().nodes.push(separator === -1
+                ? { type: 'variable', name: tag }
+                : { type: 'variable', name: tag.substring(0, separator).trim(), format: tag.substring(separator + 1).trim() });
+        }
+    }
+    if (last < source.length) {
+        current().nodes.push({ type: 'text', text: source.substring(last) });
+    }
+    if (stack.length > 1) {
+        throw new TemplateError(`Missing {{/${current().tag}}}`);
+    }
+    return root;
+}
+
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, '0');
+}
+
+/**
+ * Format a date with the YYYY, MM, DD, HH, mm and ss tokens of the usual
+ * date format syntax.
+ */
+export function formatDate(date: Date, format = 'YYYY-MM-DD'): string {
+    const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        MM: pad(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        HH: pad(date.getHours()),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
+
+function formatValue(value: TemplateValue, format?: string): string {
+    if (value === null || value === undefined || value === false) return '';
+    if (value instanceof Date) return formatDate(value, format);
+    return String(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+    if (value instanceof Date) return true;
+    return !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], data: NoteTemplateData, scope: TemplateValues, options: RenderTemplateOptions): string {
+    let output = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                output += node.text;
+                break;
+            case 'variable':
+                output += formatValue(scope[node.name], node.format);
+                break;
+            case 'if':
+                output += renderNodes(isTruthy(scope[node.name]) ? node.then : node.otherwise, data, scope, options);
+                break;
+            case 'pages':
+                data.pages.forEach((page, index) => {
+                    output += options.pagePrefix?.(index) ?? '';
+                    output += renderNodes(node.body, data, { ...data.note, ...page }, options);
+                });
+                break;
+        }
+    }
+    return output;
+}
+
+/**
+ * Fill in a Markdown export template.
+ *
+ * - `{{name}}` inserts a value, `{{created:YYYY-MM-DD HH:mm}}` formats a date.
+ * - `{{#if name}}...{{else}}...{{/if}}` keeps a part only when a value is set.
+ * - `{{#pages}}...{{/pages}}` repeats a part for every page; page values such
+ *   as `{{pageNumber}}` are available inside it.
+ *
+ * Throws a TemplateError when the template's blocks do not match up.
+ */
+export function renderTemplate(template: string, data: NoteTemplateData, options: RenderTemplateOptions = {}): string {
+    return renderNodes(parseTemplate(template), data, data.note, options);
+}
@@ -2,97 +2,343 @@ import { installAtPolyfill } from './polyfills';
 installAtPolyfill();
 
 import { SupernoteX, toImage } from 'supernote';
+import type { ILayerNames, IPage } from 'supernote/lib/format';
+import { Image, ImageKind } from 'image-js';
+import { pageToSvg } from './svg-export';
+
+/** Drawing layers of a page, the template (BGLAYER) aside. */
+export type NoteLayerName = 'MAINLAYER' | 'LAYER1' | 'LAYER2' | 'LAYER3';
+
+/** Colors (as #rrggbb) to paint each of the Supernote's ink levels with. */
+export interface InkPalette {
+    black: string;
+    darkGray: string;
+    gray: string;
+    white: string;
+}
+
+/** Image formats a page can be encoded as. */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/** How to encode a rendered page. */
+export interface OutputOptions {
+    /** Size relative to the device resolution. Defaults to 1. */
+    scale?: number;
+    /** Defaults to PNG. */
+    format?: ImageFormat;
+    /** JPEG and WebP quality from 0 to 100. Defaults to 90. */
+    quality?: number;
+    /** Bits per grey level (1, 2, 4 or 8). Fewer levels compress better. Defaults to 8. */
+    bitDepth?: number;
+}
+
+/** Which parts of a page to draw, and how. */
+export interface RenderOptions {
+    /** Drawing layers to include, all of them when omitted. */
+    layers?: NoteLayerName[];
+    /** Draw the page template (lines, dots, custom backgrounds). Defaults to true. */
+    includeBackground?: boolean;
+    /** Leave white paper transparent instead of painting it. */
+    transparentPaper?: boolean;
+    /** Recolor ink, keeping the greys when omitted. */
+    inkColors?: InkPalette;
+    /** Encoding of the page, a full size PNG when omitted. */
+    output?: OutputOptions;
+}
 
 export interface SupernoteWorkerMessage {
-    type: 'convert';
-    noteBuffer: ArrayBuffer; // Use ArrayBuffer directly for transfer
-    pageNumbers: number[];
+    /** Render the page as an image, or build an SVG of its strokes. */
+    type: 'convert' | 'svg';
+    /** Identifies the request in the response. */
+    requestId: number;
+    /** Identifies the note, so its parsed form can be reused across requests. */
+    noteKey: string;
+    /** Only sent when this worker does not have the note loaded yet. */
+    noteBuffer?: ArrayBuffer; // Use ArrayBuffer directly for transfer
+    pageNumber: number;
+    render?: RenderOptions;
 }
 
-export interface SupernoteWorkerResponse {
-    images: string[];
-    error?: string;
+/** What went wrong with a page. */
+export type PageErrorCode = 'invalid-note' | 'invalid-page' | 'render-failed';
+
+export interface PageErrorInfo {
+    code: PageErrorCode;
+    message: string;
 }
 
-self.onmessage = async (e: MessageEvent<SupernoteWorkerMessage>) => {
+/** Step the worker is at for a page. */
+export type PageStage = 'parsing' | 'rendering' | 'encoding';
+
+export type SupernoteWorkerResponse =
+    | { type: 'progress'; requestId: number; pageNumber: number; stage: PageStage }
+    /** The encoded page or SVG document, transferred rather than copied. */
+    | { type: 'page'; requestId: number; pageNumber: number; image: ArrayBuffer }
+    | { type: 'error'; requestId: number; pageNumber: number; error: PageErrorInfo };
+
+class PageError extends Error {
+    constructor(public code: PageErrorCode, message: string) {
+        super(message);
+    }
+}
+
+function post(response: SupernoteWorkerResponse, transfer: Transferable[] = []): void {
+    self.postMessage(response, { transfer });
+}
+
+// The last note this worker parsed. Jobs for the same note usually arrive
+// back to back, so parsing it once saves most of the work per page.
+let loadedNote: { key: string; sn: SupernoteX } | null = null;
+
+function loadNote(noteKey: string, noteBuffer?: ArrayBuffer): SupernoteX {
+    if (loadedNote && loadedNote.key === noteKey) {
+        return loadedNote.sn;
+    }
+    if (!noteBuffer || noteBuffer.byteLength < 100) {
+        throw new PageError('invalid-note', 'Input buffer is too small or missing.');
+    }
+
+    let sn: SupernoteX;
     try {
-        const { noteBuffer, pageNumbers } = e.data;
-        if (!noteBuffer || noteBuffer.byteLength < 100) {
-            throw new Error('Input buffer is too small or missing.');
+        sn = new SupernoteX(new Uint8Array(noteBuffer));
+    } catch (parseError) {
+        throw new PageError('invalid-note', 'Failed to parse Supernote file: ' + (parseError instanceof Error ? parseError.message : parseError));
+    }
+
+    if (!sn.pages || !Array.isArray(sn.pages) || sn.pages.length === 0) {
+        throw new PageError('invalid-note', 'SupernoteX parsing failed: no pages found. File may be invalid.');
+    }
+
+    loadedNote = { key: noteKey, sn };
+    return sn;
+}
+
+/**
+ * A view of the note in which the page only lists the selected layers. The
+ * parsed note itself stays untouched for later requests.
+ */
+function selectLayers(sn: SupernoteX, pageNumber: number, options?: RenderOptions): SupernoteX {
+    if (!options || (!options.layers && options.includeBackground !== false)) {
+        return sn;
+    }
+
+    const page = sn.pages[pageNumber - 1];
+    const layerSeq = page.LAYERSEQ.filter((name: ILayerNames) => name === 'BGLAYER'
+        ? options.includeBackground !== false
+        : !options.layers || options.layers.includes(name as NoteLayerName));
+    const pages = sn.pages.map((p: IPage, i: number) => i === pageNumber - 1 ? { ...p, LAYERSEQ: layerSeq } : p);
+    return { ...sn, pages } as SupernoteX;
+}
+
+function hasContent(sn: SupernoteX, pageNumber: number): boolean {
+    const page: IPage = sn.pages[pageNumber - 1];
+    return page.LAYERSEQ.some((name: ILayerNames) => page[name]?.bitmapBuffer?.length);
+}
+
+/**
+ * Put a grey image with alpha onto white paper. Layers without the template
+ * are transparent wherever there is no ink.
+ */
+function flattenOnWhite(image: Image): Image {
+    if (!image.alpha) return image;
+
+    const flat = new Image(image.width, image.height, { kind: 'GREY' as ImageKind });
+    const channels = image.channels;
+    for (let i = 0, j = 0; i < flat.data.length; i++, j += channels) {
+        const alpha = image.data[j + channels - 1] / 255;
+        flat.data[i] = Math.round(image.data[j] * alpha + 255 * (1 - alpha));
+    }
+    return flat;
+}
+
+/**
+ * Grey levels the renderer gives each ink color (named CSS colors, so "dark
+ * gray" comes out lighter than "gray").
+ */
+const INK_LEVELS: [keyof InkPalette, number][] = [
+    ['black', 0],
+    ['gray', 128],
+    ['darkGray', 169],
+    ['white', 255],
+];
+
+function parseHexColor(hex: string, fallback: number): [number, number, number] {
+    const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+    const value = match ? parseInt(match[1], 16) : fallback * 0x010101;
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Paint a grey image with the ink palette, optionally leaving the paper
+ * transparent. Supernote pages only use a handful of grey levels, so each
+ * pixel is matched to the nearest one.
+ */
+function paintInk(image: Image, options: RenderOptions): Image {
+    const colors = INK_LEVELS.map(([name, level]) => options.inkColors
+        ? parseHexColor(options.inkColors[name], level)
+        : [level, level, level] as [number, number, number]);
+    const whiteIndex = INK_LEVELS.length - 1;
+
+    const painted = new Image(image.width, image.height, { kind: 'RGBA' as ImageKind });
+    const channels = image.channels;
+    for (let i = 0, j = 0; j < image.data.length; i += 4, j += channels) {
+        const grey = image.data[j];
+        let alpha = image.alpha ? image.data[j + channels - 1] : 255;
+
+        let nearest = 0;
+        for (let k = 1; k < INK_LEVELS.length; k++) {
+            if (Math.abs(INK_LEVELS[k][1] - grey) < Math.abs(INK_LEVELS[nearest][1] - grey)) {
+                nearest = k;
+            }
         }
-        const buffer = new Uint8Array(noteBuffer);
-        // Log first 16 bytes for debugging
-        console.log('Buffer first 16 bytes:', Array.from(buffer.slice(0, 16)));
-
-        let sn: SupernoteX;
-        try {
-            sn = new SupernoteX(buffer);
-        } catch (parseError) {
-            throw new Error('Failed to parse Supernote file: ' + (parseError instanceof Error ? parseError.message : parseError));
+        if (options.transparentPaper && nearest === whiteIndex) {
+            alpha = 0;
         }
 
-        if (!sn.pages || !Array.isArray(sn.pages) || sn.pages.length === 0) {
-            throw new Error('SupernoteX parsing failed: no pages found. File may be invalid.');
+        const [r, g, b] = colors[nearest];
+        if (options.transparentPaper) {
+            painted.data[i] = r;
+            painted.data[i + 1] = g;
+            painted.data[i + 2] = b;
+            painted.data[i + 3] = alpha;
+        } else {
+            // Onto white paper
+            const a = alpha / 255;
+            painted.data[i] = Math.round(r * a + 255 * (1 - a));
+            painted.data[i + 1] = Math.round(g * a + 255 * (1 - a));
+            painted.data[i + 2] = Math.round(b * a + 255 * (1 - a));
+            painted.data[i + 3] = 255;
         }
+    }
+    return painted;
+}
 
-        // Add detailed logging of SupernoteX structure
-        console.log('SupernoteX object:', sn);
-        console.log('Pages array length:', sn.pages.length);
-        console.log('First page structure:', sn.pages[0]);
-        console.log('Available properties on first page:', Object.keys(sn.pages[0] || {}));
-
-        // Check LAYERSEQ specifically
-        const firstPage = sn.pages[0];
-        if (firstPage) {
-            console.log('LAYERSEQ value:', firstPage.LAYERSEQ);
-            console.log('LAYERSEQ type:', typeof firstPage.LAYERSEQ);
-            console.log('LAYERSEQ is array:', Array.isArray(firstPage.LAYERSEQ));
-            if (firstPage.LAYERSEQ) {
-                console.log('LAYERSEQ length:', firstPage.LAYERSEQ.length);
-                console.log('LAYERSEQ contents:', firstPage.LAYERSEQ);
-            }
+/**
+ * Keep only 2^bits levels of each color channel.
+ */
+function reduceBitDepth(image: Image, bits: number): Image {
+    const levels = (1 << bits) - 1;
+    const reduced = image.clone();
+    const colorChannels = image.alpha ? image.channels - 1 : image.channels;
+    for (let i = 0; i < reduced.data.length; i += image.channels) {
+        for (let c = 0; c < colorChannels; c++) {
+            reduced.data[i + c] = Math.round(Math.round(reduced.data[i + c] / 255 * levels) * 255 / levels);
         }
+    }
+    return reduced;
+}
 
-        const results: string[] = [];
-        for (const pageNum of pageNumbers) {
-            if (pageNum < 1 || pageNum > sn.pages.length) {
-                console.warn(`Skipping invalid page number: ${pageNum}`);
-                continue;
-            }
-            try {
-                const page = sn.pages[pageNum - 1];
-                console.log(`Processing page ${pageNum}, page object:`, page);
-                console.log(`Page ${pageNum} LAYERSEQ:`, page.LAYERSEQ);
-                console.log(`Page ${pageNum} LAYERSEQ type:`, typeof page.LAYERSEQ);
-
-                const image = await toImage(sn, [pageNum]); // Use pageNum directly, not pageNum - 1
-                if (image && image.length > 0 && image[0] && typeof image[0].toDataURL === 'function') {
-                    results.push(image[0].toDataURL());
-                } else {
-                    console.warn(`No valid image generated for page ${pageNum}`);
-                }
-            } catch (pageError) {
-                console.error(`Error processing page ${pageNum}:`, pageError);
-                console.error('Page error details:', {
-                    pageIndex: pageNum - 1,
-                    pageObject: sn.pages[pageNum - 1],
-                    pageKeys: Object.keys(sn.pages[pageNum - 1] || {}),
-                    layerSeqValue: sn.pages[pageNum - 1]?.LAYERSEQ,
-                    layerSeqType: typeof sn.pages[pageNum - 1]?.LAYERSEQ
-                });
-            }
+/**
+ * Encode with the browser's encoders, which image-js lacks for WebP and
+ * handles slowly for JPEG. JPEG has no alpha, so transparent areas go onto
+ * white paper.
+ */
+async function encodeWithCanvas(image: Image, format: 'jpeg' | 'webp', quality: number): Promise<ArrayBuffer> {
+    const canvas = new OffscreenCanvas(image.width, image.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new PageError('render-failed', 'Could not create a canvas to encode the page');
+    }
+
+    const pixels = context.createImageData(image.width, image.height);
+    const channels = image.channels;
+    const grey = (image.alpha ? channels - 1 : channels) === 1;
+    const opaque = format === 'jpeg';
+    for (let i = 0, j = 0; j < image.data.length; i += 4, j += channels) {
+        const alpha = image.alpha ? image.data[j + channels - 1] : 255;
+        for (let c = 0; c < 3; c++) {
+            const value = image.data[grey ? j : j + c];
+            pixels.data[i + c] = opaque ? Math.round(value * alpha / 255 + 255 * (1 - alpha / 255)) : value;
         }
+        pixels.data[i + 3] = opaque ? 255 : alpha;
+    }
+    context.putImageData(pixels, 0, 0);
+
+    const blob = await canvas.convertToBlob({ type: `image/${format}`, quality: quality / 100 });
+    return blob.arrayBuffer();
+}
 
-        if (results.length > 0) {
-            self.postMessage({ images: results });
+async function encodePage(image: Image, output: OutputOptions = {}): Promise<ArrayBuffer> {
+    const scale = output.scale ?? 1;
+    if (scale !== 1) {
+        image = image.resize({ factor: scale });
+    }
+    if (output.bitDepth && output.bitDepth < 8) {
+        image = reduceBitDepth(image, output.bitDepth);
+    }
+
+    const format = output.format ?? 'png';
+    if (format !== 'png') {
+        return encodeWithCanvas(image, format, output.quality ?? 90);
+    }
+    const bytes: Uint8Array = image.toBuffer({ format: 'png' });
+    return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+        ? bytes.buffer as ArrayBuffer
+        : bytes.slice().buffer as ArrayBuffer;
+}
+
+function blankPage(sn: SupernoteX, options?: RenderOptions): Image {
+    if (options?.transparentPaper) {
+        return new Image(sn.pageWidth, sn.pageHeight, { kind: 'RGBA' as ImageKind });
+    }
+    const image = new Image(sn.pageWidth, sn.pageHeight, { kind: 'GREY' as ImageKind });
+    image.data.fill(255);
+    return image;
+}
+
+self.onmessage = async (e: MessageEvent<SupernoteWorkerMessage>) => {
+    const { type, requestId, noteKey, noteBuffer, pageNumber, render } = e.data;
+    try {
+        if (noteBuffer) {
+            post({ type: 'progress', requestId, pageNumber, stage: 'parsing' });
+        }
+        const sn = loadNote(noteKey, noteBuffer);
+        if (pageNumber < 1 || pageNumber > sn.pages.length) {
+            throw new PageError('invalid-page', `Invalid page number: ${pageNumber}`);
+        }
+
+        post({ type: 'progress', requestId, pageNumber, stage: 'rendering' });
+        if (type === 'svg') {
+            const svg = new TextEncoder().encode(pageToSvg(sn, pageNumber - 1, render)).buffer as ArrayBuffer;
+            post({ type: 'page', requestId, pageNumber, image: svg }, [svg]);
+            return;
+        }
+        const selected = selectLayers(sn, pageNumber, render);
+        let image: Image;
+        if (!hasContent(selected, pageNumber)) {
+            // Nothing left to draw with the chosen layers
+            image = blankPage(sn, render);
         } else {
-            throw new Error('No images generated from any pages. File may be invalid or empty.');
+            let images;
+            try {
+                images = await toImage(selected, [pageNumber]);
+            } catch (renderError) {
+                throw new PageError('render-failed', renderError instanceof Error ? renderError.message : String(renderError));
+            }
+            if (!images || images.length === 0 || !images[0] || typeof images[0].toBuffer !== 'function') {
+                throw new PageError('render-failed', `No valid image generated for page ${pageNumber}`);
+            }
+            image = images[0];
+            if (render?.transparentPaper || render?.inkColors) {
+                image = paintInk(image, render);
+            } else if (render?.includeBackground === false) {
+                image = flattenOnWhite(image);
+            }
         }
+
+        post({ type: 'progress', requestId, pageNumber, stage: 'encoding' });
+        const encoded = await encodePage(image, render?.output);
+        post({ type: 'page', requestId, pageNumber, image: encoded }, [encoded]);
     } catch (error) {
-        console.error('Worker error:', error);
-        self.postMessage({
-            images: [],
-            error: error instanceof Error ? error.message : 'Unknown error occurred'
+        console.error(`Error processing page ${pageNumber}:`, error);
+        post({
+            type: 'error',
+            requestId,
+            pageNumber,
+            error: {
+                code: error instanceof PageError ? error.code : 'render-failed',
+                message: error instanceof Error ? error.message : 'Unknown error occurred'
+            }
         });
     }
 };
@@ -0,0 +1,32 @@
+import { NoteEmbedError, parseNoteSubpath } from './note-embed';
+
+describe('note embed subpaths', () => {
+    it('should show every page without a page', () => {
+        expect(parseNoteSubpath('', 3)).toEqual({ pages: [1, 2, 3] });
+    });
+
+    it('should read single pages, ranges and lists', () => {
+        expect(parseNoteSubpath('#page=3', 5).pages).toEqual([3]);
+        expect(parseNoteSubpath('#page=2-4', 5).pages).toEqual([2, 3, 4]);
+        expect(parseNoteSubpath('#page=1,4-5', 5).pages).toEqual([1, 4, 5]);
+    });
+
+    it('should read crop regions', () => {
+        expect(parseNoteSubpath('#page=2&crop=100,200,700,300', 2)).toEqual({
+            pages: [2],
+            crop: { x: 100, y: 200, width: 700, height: 300 },
+        });
+    });
+
+    it('should reject pages the note does not have', () => {
+        expect(() => parseNoteSubpath('#page=4', 3)).toThrow('Page 4 is not in the note, it has 3 pages');
+        expect(() => parseNoteSubpath('#page=0', 3)).toThrow(NoteEmbedError);
+        expect(() => parseNoteSubpath('#page=3-2', 3)).toThrow(NoteEmbedError);
+        expect(() => parseNoteSubpath('#page=two', 3)).toThrow('Invalid page "two"');
+    });
+
+    it('should reject malformed crop regions', () => {
+        expect(() => parseNoteSubpath('#page=1&crop=1,2,3', 1)).toThrow(NoteEmbedError);
+        expect(() => parseNoteSubpath('#page=1&crop=0,0,0,10', 1)).toThrow(NoteEmbedError);
+    });
+});
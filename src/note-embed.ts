@@ -0,0 +1,221 @@
+import { App, Keymap, MarkdownRenderChild, TFile } from 'obsidian';
+import { SupernoteX } from 'supernote';
+import { ImageConverter, RenderOptions, RenderPriority, exportRenderOptions, isRenderCancelled, processSupernoteText } from './main';
+import type { SupernotePluginSettings } from './settings';
+
+/** A part of a page, in page pixels. */
+export interface PageRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** What an embed of a note shows. */
+export interface NoteEmbedTarget {
+    /** Pages to show, starting at 1, in order. */
+    pages: number[];
+    /** Part of each page to show; whole pages when missing. */
+    crop?: PageRegion;
+}
+
+/** How an embed or `supernote` code block shows a note. */
+export interface NoteEmbedOptions {
+    /** Pages such as `3`, `2-4` or `1,3`; every page when missing. */
+    pages?: string;
+    /** Part of each page as `x,y,width,height` in page pixels. */
+    crop?: string;
+    /** How pages are drawn; the export settings at full size when missing. */
+    render?: RenderOptions;
+    /** Width of each page in pixels. */
+    width?: number;
+    /** Invert pages in dark mode; follows the setting when missing. */
+    invert?: boolean;
+    /** Show each page's recognized text below it. */
+    showText?: boolean;
+}
+
+/** An embed subpath that cannot be shown, e.g. a page the note does not have. */
+export class NoteEmbedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NoteEmbedError';
+    }
+}
+
+function parsePages(spec: string, pageCount: number): number[] {
+    const pages: number[] = [];
+    for (const part of spec.split(',')) {
+        const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+        if (!match) {
+            throw new NoteEmbedError(`Invalid page "${part.trim()}"`);
+        }
+        const first = parseInt(match[1], 10);
+        const last = match[2] !== undefined ? parseInt(match[2], 10) : first;
+        if (first < 1 || last > pageCount || first > last) {
+            throw new NoteEmbedError(`Page ${part.trim()} is not in the note, it has ${pageCount} page${pageCount === 1 ? '' : 's'}`);
+        }
+        for (let page = first; page <= last; page++) {
+            pages.push(page);
+        }
+    }
+    return pages;
+}
+
+function parseCrop(spec: string): PageRegion {
+    const values = spec.split(',').map(value => Number(value.trim()));
+    if (values.length !== 4 || values.some(value => !Number.isFinite(value) || value < 0) || values[2] === 0 || values[3] === 0) {
+        throw new NoteEmbedError(`Invalid crop "${spec}", expected x,y,width,height in page pixels`);
+    }
+    const [x, y, width, height] = values;
+    return { x, y, width, height };
+}
+
+/**
+ * Read the subpath of a note embed: `#page=3`, `#page=2-4`, `#page=1,3` and
+ * optionally `&crop=x,y,width,height`.
+ */
+export function embedOptionsFromSubpath(subpath: string): NoteEmbedOptions {
+    const params = new Map<string, string>();
+    for (const param of subpath.replace(/^#/, '').split('&')) {
+        const separator = param.indexOf('=');
+        if (separator !== -1) {
+            params.set(param.substring(0, separator).trim(), decodeURIComponent(param.substring(separator + 1)));
+        }
+    }
+    return { pages: params.get('page'), crop: params.get('crop') };
+}
+
+/**
+ * Check the pages and crop region of an embed against a note with pageCount
+ * pages. Without pages every page is shown.
+ */
+export function resolveNoteTarget(options: NoteEmbedOptions, pageCount: number): NoteEmbedTarget {
+    const target: NoteEmbedTarget = {
+        pages: options.pages !== undefined ? parsePages(options.pages, pageCount) : Array.from({ length: pageCount }, (_, i) => i + 1),
+    };
+    if (options.crop !== undefined) {
+        target.crop = parseCrop(options.crop);
+    }
+    return target;
+}
+
+export function parseNoteSubpath(subpath: string, pageCount: number): NoteEmbedTarget {
+    return resolveNoteTarget(embedOptionsFromSubpath(subpath), pageCount);
+}
+
+/**
+ * Shows the pages of a `![[name.note#page=N]]` embed or a `supernote` code
+ * block, rendered through the shared worker pool. Hovering a page shows its
+ * recognized text and clicking it opens the note at that page.
+ */
+export class NoteEmbed extends MarkdownRenderChild {
+    private urls: string[] = [];
+    private controller = new AbortController();
+
+    constructor(
+        containerEl: HTMLElement,
+        private app: App,
+        private settings: SupernotePluginSettings,
+        private file: TFile,
+        private options: NoteEmbedOptions,
+    ) {
+        super(containerEl);
+    }
+
+    async onload() {
+        const el = this.containerEl;
+        el.empty();
+        el.addClass('supernote-embed');
+
+        let sn: SupernoteX;
+        let buffer: Uint8Array;
+        let target: NoteEmbedTarget;
+        try {
+            buffer = new Uint8Array(await this.app.vault.readBinary(this.file));
+            sn = new SupernoteX(buffer);
+            target = resolveNoteTarget(this.options, sn.pages.length);
+        } catch (error) {
+            this.showError(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        const converter = new ImageConverter();
+        const width = this.options.width ?? el.getAttribute('width');
+        const render = this.options.render ?? exportRenderOptions(this.settings, null);
+        await Promise.all(target.pages.map(async pageNumber => {
+            const pageEl = el.createDiv('supernote-embed-page');
+            if (width) {
+                pageEl.style.width = `${width}px`;
+            }
+            const text = sn.pages[pageNumber - 1].text;
+            pageEl.setAttr('title', text ? processSupernoteText(text, this.settings) : `${this.file.basename}, page ${pageNumber}`);
+            pageEl.addEventListener('click', (event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                this.app.workspace.getLeaf(Keymap.isModEvent(event)).openFile(this.file, {
+                    eState: { page: pageNumber - 1, y: target.crop?.y },
+                });
+            });
+
+            const frame = pageEl.createDiv('supernote-embed-frame');
+            const img = frame.createEl('img', { attr: { alt: `${this.file.basename}, page ${pageNumber}` } });
+            if (this.options.invert ?? this.settings.invertColorsWhenDark) {
+                img.addClass('supernote-invert-dark');
+            }
+            this.applyCrop(frame, img, sn, target.crop);
+            if (this.options.showText && text) {
+                pageEl.createDiv({ cls: 'supernote-text-content', text: processSupernoteText(text, this.settings) });
+            }
+
+            try {
+                const png = await converter.convertPage(sn, pageNumber, buffer, {
+                    sourcePath: this.file.path,
+                    priority: RenderPriority.Visible,
+                    signal: this.controller.signal,
+                    render,
+                });
+                const url = URL.createObjectURL(new Blob([png], { type: 'image/png' }));
+                this.urls.push(url);
+                img.src = url;
+            } catch (error) {
+                if (isRenderCancelled(error)) return;
+                console.error(`Failed to render page ${pageNumber} of ${this.file.path}:`, error);
+                img.addClass('supernote-page-error');
+                img.alt = `Page ${pageNumber} could not be rendered: ${error.message}`;
+            }
+        }));
+    }
+
+    /**
+     * Show only the crop region: the frame takes the region's shape and the
+     * page image is scaled and shifted so the region fills it.
+     */
+    private applyCrop(frame: HTMLElement, img: HTMLImageElement, sn: SupernoteX, crop?: PageRegion) {
+        const { pageWidth, pageHeight } = sn;
+        if (!crop) {
+            frame.style.aspectRatio = `${pageWidth} / ${pageHeight}`;
+            return;
+        }
+
+        const x = Math.min(crop.x, pageWidth - 1);
+        const y = Math.min(crop.y, pageHeight - 1);
+        const width = Math.min(crop.width, pageWidth - x);
+        const height = Math.min(crop.height, pageHeight - y);
+        frame.addClass('is-cropped');
+        frame.style.aspectRatio = `${width} / ${height}`;
+        img.style.width = `${pageWidth / width * 100}%`;
+        img.style.left = `${-x / width * 100}%`;
+        img.style.top = `${-y / height * 100}%`;
+    }
+
+    private showError(message: string) {
+        this.containerEl.createDiv({ cls: 'supernote-embed-error', text: `${this.file.name}: ${message}` });
+    }
+
+    onunload() {
+        this.controller.abort();
+        this.urls.forEach(url => URL.revokeObjectURL(url));
+        this.urls = [];
+    }
+}
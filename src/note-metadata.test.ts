@@ -0,0 +1,163 @@
+import { getKeywords, getLinks, getTitles, keywordTags, keywordToTag, parseRect, readKeyValueBlock, textInRect } from './note-metadata';
+
+function block(content: string, offset = 8): { buffer: Uint8Array; address: number } {
+    const bytes = new TextEncoder().encode(content);
+    const buffer = new Uint8Array(offset + 4 + bytes.length);
+    new DataView(buffer.buffer).setUint32(offset, bytes.length, true);
+    buffer.set(bytes, offset + 4);
+    return { buffer, address: offset };
+}
+
+/** Several blocks in one buffer, with the address of each. */
+function blocks(contents: string[]): { buffer: Uint8Array; addresses: number[] } {
+    const parts: Uint8Array[] = [];
+    const addresses: number[] = [];
+    let offset = 8;
+    for (const content of contents) {
+        const { buffer, address } = block(content, 0);
+        parts.push(buffer);
+        addresses.push(offset + address);
+        offset += buffer.length;
+    }
+    const buffer = new Uint8Array(offset);
+    parts.forEach((part, i) => buffer.set(part, addresses[i]));
+    return { buffer, addresses };
+}
+
+describe('note metadata', () => {
+    describe('parseRect', () => {
+        it('should parse comma separated rectangles', () => {
+            expect(parseRect('10,20,300,40')).toEqual({ x: 10, y: 20, width: 300, height: 40 });
+        });
+
+        it('should reject incomplete rectangles', () => {
+            expect(parseRect('10,20')).toBeNull();
+            expect(parseRect(undefined)).toBeNull();
+        });
+    });
+
+    describe('readKeyValueBlock', () => {
+        it('should read key/value pairs at an address', () => {
+            const { buffer, address } = block('<LINKTYPE:0><LINKRECT:1,2,3,4>');
+
+            expect(readKeyValueBlock(buffer, address)).toEqual({ LINKTYPE: '0', LINKRECT: '1,2,3,4' });
+        });
+
+        it('should return an empty record for a null address', () => {
+            expect(readKeyValueBlock(new Uint8Array(16), 0)).toEqual({});
+        });
+    });
+
+    describe('getTitles', () => {
+        it('should order titles by page and position', () => {
+            const sn = {
+                pages: [{}, {}, {}],
+                titles: {
+                    '00030100': [{ TITLELEVEL: '2', TITLERECT: '0,100,50,20' }],
+                    '00010500': [{ TITLELEVEL: '1', TITLERECT: '0,500,50,20' }],
+                    '00010050': [{ TITLELEVEL: '1', TITLERECT: '0,50,50,20' }]
+                }
+            };
+
+            const titles = getTitles(sn as any);
+
+            expect(titles.map(t => [t.page, t.rect.y, t.level])).toEqual([
+                [0, 50, 1],
+                [0, 500, 1],
+                [2, 100, 2]
+            ]);
+        });
+    });
+
+    describe('getKeywords', () => {
+        it('should read keyword blocks, order them by page and drop duplicates', () => {
+            const { buffer, addresses } = blocks([
+                '<KEYWORDSEQNO:1><KEYWORDPAGE:2><KEYWORDRECT:0,100,50,20><KEYWORD:project>',
+                '<KEYWORDSEQNO:2><KEYWORDPAGE:1><KEYWORDRECT:0,100,50,20><KEYWORD:todo>',
+                '<KEYWORDSEQNO:3><KEYWORDPAGE:1><KEYWORDRECT:0,100,50,20><KEYWORD:todo>',
+            ]);
+            const sn = {
+                pages: [{}, {}],
+                footer: {
+                    KEYWORD: {
+                        '00020100': String(addresses[0]),
+                        '00010100': [String(addresses[1]), String(addresses[2])]
+                    }
+                }
+            };
+
+            expect(getKeywords(sn as any, buffer)).toEqual([
+                { page: 0, text: 'todo' },
+                { page: 1, text: 'project' }
+            ]);
+        });
+
+        it('should take the page from the footer key when the block has none', () => {
+            const { buffer, address } = block('<KEYWORD:later>');
+            const sn = { pages: [{}, {}, {}], footer: { KEYWORD: { '00030100': String(address) } } };
+
+            expect(getKeywords(sn as any, buffer)).toEqual([{ page: 2, text: 'later' }]);
+        });
+
+        it('should skip empty keywords and notes without any', () => {
+            const { buffer, address } = block('<KEYWORDPAGE:1><KEYWORD:>');
+
+            expect(getKeywords({ pages: [{}], footer: { KEYWORD: { '00010100': String(address) } } } as any, buffer)).toEqual([]);
+            expect(getKeywords({ pages: [{}], footer: {} } as any, buffer)).toEqual([]);
+        });
+    });
+
+    describe('keywordToTag', () => {
+        it('should make keywords usable as tags', () => {
+            expect(keywordToTag(' #Project Alpha ')).toBe('Project-Alpha');
+            expect(keywordToTag('Q&A')).toBe('QA');
+            expect(keywordToTag('!!!')).toBe('');
+        });
+    });
+
+    describe('keywordTags', () => {
+        it('should turn the keyword blocks of a page into tags', () => {
+            const { buffer, addresses } = blocks([
+                '<KEYWORDPAGE:1><KEYWORD:Project Alpha>',
+                '<KEYWORDPAGE:1><KEYWORD:#work>',
+                '<KEYWORDPAGE:1><KEYWORD:???>',
+                '<KEYWORDPAGE:2><KEYWORD:elsewhere>',
+            ]);
+            const sn = {
+                pages: [{}, {}],
+                footer: { KEYWORD: { '00010100': addresses.slice(0, 3).map(String), '00020100': String(addresses[3]) } }
+            };
+
+            const firstPage = getKeywords(sn as any, buffer).filter(keyword => keyword.page === 0);
+
+            expect(keywordTags(firstPage)).toBe('#Project-Alpha #work');
+        });
+    });
+
+    describe('getLinks', () => {
+        it('should resolve page links against page ids', () => {
+            const { buffer, address } = block('<LINKRECT:10,10,100,30><LINKFILEID:none><PAGEID:P2>');
+            const sn = {
+                pages: [{ PAGEID: 'P1' }, { PAGEID: 'P2' }],
+                header: {},
+                footer: { LINKO: { '00010010': String(address) } }
+            };
+
+            expect(getLinks(sn as any, buffer)).toEqual([
+                { page: 0, rect: { x: 10, y: 10, width: 100, height: 30 }, targetPage: 1 }
+            ]);
+        });
+    });
+
+    describe('textInRect', () => {
+        it('should join the words inside a rectangle', () => {
+            const words = [
+                { label: 'Meeting', rect: { x: 10, y: 10, width: 80, height: 20 } },
+                { label: 'notes', rect: { x: 100, y: 10, width: 60, height: 20 } },
+                { label: 'later', rect: { x: 10, y: 200, width: 60, height: 20 } }
+            ];
+
+            expect(textInRect(words, { x: 0, y: 0, width: 200, height: 40 })).toBe('Meeting notes');
+        });
+    });
+});
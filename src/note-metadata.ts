@@ -0,0 +1,251 @@
+import { SupernoteX } from 'supernote';
+import type { IPage } from 'supernote/lib/format';
+
+/** Rectangle in page pixels. */
+export interface NoteRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A heading ("title") marked on a page. */
+export interface NoteTitle {
+    /** Page index, starting at 0. */
+    page: number;
+    /** Heading level, starting at 1. */
+    level: number;
+    rect: NoteRect;
+}
+
+/** A link area drawn on a page. */
+export interface NoteLink {
+    /** Page index the link is drawn on, starting at 0. */
+    page: number;
+    rect: NoteRect;
+    /** Target page index when the link points inside this note. */
+    targetPage?: number;
+    /** Target file path or URL when the link points elsewhere. */
+    target?: string;
+}
+
+/**
+ * Parse a Supernote rectangle ("left,top,width,height") from the footer.
+ */
+export function parseRect(value: string | string[] | undefined): NoteRect | null {
+    if (!value) return null;
+    const parts = (Array.isArray(value) ? value : value.split(',')).map(part => parseFloat(part));
+    if (parts.length < 4 || parts.some(part => isNaN(part))) return null;
+    const [x, y, width, height] = parts;
+    return { x, y, width, height };
+}
+
+/**
+ * Read a `<KEY:value>` block at an address in the note buffer, the same way
+ * the supernote library reads footer entries.
+ */
+export function readKeyValueBlock(buffer: Uint8Array, address: number): Record<string, string> {
+    if (!address || address + 4 > buffer.length) return {};
+    const length = buffer[address] | (buffer[address + 1] << 8) | (buffer[address + 2] << 16) | (buffer[address + 3] << 24);
+    const content = new TextDecoder('utf8').decode(buffer.subarray(address + 4, address + 4 + length));
+
+    const data: Record<string, string> = {};
+    const pattern = /<([^:<>]+):([^<>]*)>/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content)) !== null) {
+        if (!(match[1] in data)) {
+            data[match[1]] = match[2];
+        }
+    }
+    return data;
+}
+
+/**
+ * Page number encoded in the first four digits of a footer key, e.g. the
+ * `0003` of `TITLE_00030512`. Returns a 0-based page index.
+ */
+function pageFromFooterKey(key: string): number | null {
+    const page = parseInt(key.substring(0, 4), 10);
+    return isNaN(page) || page < 1 ? null : page - 1;
+}
+
+function decodeBase64Text(value: string): string {
+    try {
+        return decodeURIComponent(escape(atob(value)));
+    } catch (error) {
+        return value;
+    }
+}
+
+/**
+ * Titles of the note, ordered by page and vertical position.
+ */
+export function getTitles(sn: SupernoteX): NoteTitle[] {
+    const titles: NoteTitle[] = [];
+    for (const [key, entries] of Object.entries(sn.titles ?? {})) {
+        const page = pageFromFooterKey(key);
+        if (page === null || page >= sn.pages.length) continue;
+        for (const title of entries) {
+            const rect = parseRect(title.TITLERECT) ?? parseRect(title.TITLERECTORI);
+            if (!rect) continue;
+            titles.push({ page, level: Math.max(1, parseInt(title.TITLELEVEL, 10) || 1), rect });
+        }
+    }
+    return titles.sort((a, b) => a.page - b.page || a.rect.y - b.rect.y);
+}
+
+/** A keyword tagged on a page. */
+export interface NoteKeyword {
+    /** Page index, starting at 0. */
+    page: number;
+    text: string;
+}
+
+/**
+ * Keywords of the note, ordered by page. Duplicates on the same page are
+ * dropped. The supernote library does not keep the keyword text, so each
+ * keyword's block is read from its footer address.
+ */
+export function getKeywords(sn: SupernoteX, buffer: Uint8Array): NoteKeyword[] {
+    const footer = sn.footer as unknown as Record<string, Record<string, string | string[]>>;
+    const keywords: NoteKeyword[] = [];
+    for (const [key, value] of Object.entries(footer.KEYWORD ?? {})) {
+        for (const address of Array.isArray(value) ? value : [value]) {
+            const data = readKeyValueBlock(buffer, parseInt(address, 10));
+            const text = (data.KEYWORD ?? '').trim();
+            const page = data.KEYWORDPAGE ? parseInt(data.KEYWORDPAGE, 10) - 1 : pageFromFooterKey(key);
+            if (!text || page === null || isNaN(page) || page < 0 || page >= sn.pages.length) continue;
+            if (keywords.some(k => k.page === page && k.text === text)) continue;
+            keywords.push({ page, text });
+        }
+    }
+    return keywords.sort((a, b) => a.page - b.page);
+}
+
+/**
+ * Turn a keyword into a tag name: no leading #, dashes instead of spaces and
+ * none of the characters tags cannot hold. Returns an empty string when
+ * nothing usable is left.
+ */
+export function keywordToTag(keyword: string): string {
+    return keyword
+        .trim()
+        .replace(/^#+/, '')
+        .replace(/\s+/g, '-')
+        .replace(/[^\p{L}\p{N}_\-/]/gu, '');
+}
+
+/**
+ * Keywords as space separated #tags, skipping those that make no usable tag.
+ */
+export function keywordTags(keywords: NoteKeyword[]): string {
+    const tags = new Set(keywords.map(keyword => keywordToTag(keyword.text)).filter(tag => tag));
+    return [...tags].map(tag => `#${tag}`).join(' ');
+}
+
+/**
+ * Links of the note. Page links are resolved against the PAGEID of each page;
+ * links to other files or the web keep their decoded target.
+ */
+export function getLinks(sn: SupernoteX, buffer: Uint8Array): NoteLink[] {
+    const footer = sn.footer as unknown as Record<string, Record<string, string>>;
+    const entries = footer.LINKO ?? {};
+    // Page and file ids are parsed but missing from the library's types
+    const pageIds = sn.pages.map((page: IPage) => (page as unknown as Record<string, string | undefined>).PAGEID);
+    const fileId = (sn.header as unknown as Record<string, string | undefined>).FILE_ID;
+
+    const links: NoteLink[] = [];
+    for (const [key, address] of Object.entries(entries)) {
+        const page = pageFromFooterKey(key);
+        if (page === null || page >= sn.pages.length) continue;
+
+        const data = readKeyValueBlock(buffer, parseInt(address, 10));
+        const rect = parseRect(data.LINKRECT);
+        if (!rect) continue;
+
+        const link: NoteLink = { page, rect };
+        const samefile = !data.LINKFILEID || data.LINKFILEID === 'none' || data.LINKFILEID === fileId;
+        const targetPage = data.PAGEID ? pageIds.indexOf(data.PAGEID) : -1;
+
+        if (samefile && targetPage !== -1) {
+            link.targetPage = targetPage;
+        } else if (data.LINKFILE && data.LINKFILE !== 'none') {
+            link.target = decodeBase64Text(data.LINKFILE);
+        } else {
+            continue;
+        }
+        links.push(link);
+    }
+    return links;
+}
+
+/** A recognized word and where it was written on the page. */
+export interface RecognizedWord {
+    label: string;
+    rect: NoteRect;
+}
+
+/**
+ * Pixels per recognition unit. The recognition data stores bounding boxes in
+ * millimetres, so this follows the device resolution: 300 DPI for the Manta
+ * sized pages, 226 DPI for everything else.
+ */
+function recognitionScale(sn: SupernoteX): number {
+    const dpi = sn.pageWidth >= 1920 ? 300 : 226;
+    return dpi / 25.4;
+}
+
+/**
+ * Recognized words with their bounding boxes in page pixels, one array per
+ * page. Pages without recognition data yield an empty array.
+ */
+export function getRecognitionWords(sn: SupernoteX, buffer: Uint8Array): RecognizedWord[][] {
+    const scale = recognitionScale(sn);
+
+    return sn.pages.map((page: IPage) => {
+        const address = parseInt(page.RECOGNTEXT || '0', 10);
+        if (!address || address + 4 > buffer.length) return [];
+
+        try {
+            const length = buffer[address] | (buffer[address + 1] << 8) | (buffer[address + 2] << 16) | (buffer[address + 3] << 24);
+            const encoded = new TextDecoder('utf8').decode(buffer.subarray(address + 4, address + 4 + length));
+            const recogn = JSON.parse(atob(encoded));
+
+            const words: RecognizedWord[] = [];
+            for (const element of recogn.elements ?? []) {
+                if (element.type !== 'Text') continue;
+                for (const word of element.words ?? []) {
+                    const box = word['bounding-box'];
+                    if (!box || !word.label || !word.label.trim()) continue;
+                    words.push({
+                        label: decodeURIComponent(escape(word.label)),
+                        rect: {
+                            x: box.x * scale,
+                            y: box.y * scale,
+                            width: box.width * scale,
+                            height: box.height * scale,
+                        },
+                    });
+                }
+            }
+            return words;
+        } catch (error) {
+            console.warn('Could not read recognition data:', error);
+            return [];
+        }
+    });
+}
+
+/**
+ * Join the words whose centre lies inside a rectangle, in reading order.
+ */
+export function textInRect(words: RecognizedWord[], rect: NoteRect): string {
+    return words
+        .filter(word => {
+            const cx = word.rect.x + word.rect.width / 2;
+            const cy = word.rect.y + word.rect.height / 2;
+            return cx >= rect.x && cx <= rect.x + rect.width && cy >= rect.y && cy <= rect.y + rect.height;
+        })
+        .map(word => word.label)
+        .join(' ');
+}
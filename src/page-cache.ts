@@ -0,0 +1,235 @@
+import { App, debounce, normalizePath } from 'obsidian';
+import { SupernotePluginSettings } from './settings';
+
+/** A rendered page stored on disk. */
+interface PageCacheEntry {
+    /** Hash of the .note file contents the page was rendered from. */
+    noteHash: string;
+    /** Page number, starting at 1. */
+    page: number;
+    /** Serialized render options. */
+    options: string;
+    /** Size of the cached file in bytes. */
+    size: number;
+    /** Last time the entry was read or written, for LRU eviction. */
+    lastAccess: number;
+}
+
+interface PageCacheIndex {
+    version: 1;
+    /** Entries keyed by cache file name. */
+    entries: Record<string, PageCacheEntry>;
+    /** Content hash last seen for each vault path, used for invalidation. */
+    sources: Record<string, string>;
+}
+
+/**
+ * On-disk cache of rendered pages in the plugin folder, keyed by note content
+ * hash, page number and render options. Least recently used pages are evicted
+ * once the configured size cap is exceeded.
+ */
+export class PageCache {
+    private app: App;
+    private settings: SupernotePluginSettings;
+    private cacheDir: string;
+    private indexPath: string;
+    private index: PageCacheIndex | null = null;
+    private loading: Promise<PageCacheIndex> | null = null;
+    private requestSave = debounce(() => this.saveIndex(), 2000, true);
+
+    constructor(app: App, settings: SupernotePluginSettings, cacheDir: string) {
+        this.app = app;
+        this.settings = settings;
+        this.cacheDir = normalizePath(cacheDir);
+        this.indexPath = `${this.cacheDir}/index.json`;
+    }
+
+    /**
+     * Hash note contents for use as a cache key.
+     */
+    static async hashNote(buffer: Uint8Array): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', buffer);
+        return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+    }
+
+    isEnabled(): boolean {
+        return this.settings.pageCacheEnabled;
+    }
+
+    async get(noteHash: string, page: number, options = 'default'): Promise<ArrayBuffer | null> {
+        if (!this.isEnabled()) return null;
+
+        const index = await this.loadIndex();
+        const key = this.getKey(noteHash, page, options);
+        const entry = index.entries[key];
+        if (!entry) return null;
+
+        try {
+            const data = await this.app.vault.adapter.readBinary(`${this.cacheDir}/${key}`);
+            entry.lastAccess = Date.now();
+            this.requestSave();
+            return data;
+        } catch (error) {
+            // The file went missing underneath us, forget about it
+            delete index.entries[key];
+            this.requestSave();
+            return null;
+        }
+    }
+
+    async put(noteHash: string, page: number, data: ArrayBuffer, options = 'default'): Promise<void> {
+        if (!this.isEnabled()) return;
+
+        const index = await this.loadIndex();
+        const key = this.getKey(noteHash, page, options);
+        const adapter = this.app.vault.adapter;
+
+        try {
+            if (!await adapter.exists(this.cacheDir)) {
+                await adapter.mkdir(this.cacheDir);
+            }
+            await adapter.writeBinary(`${this.cacheDir}/${key}`, data);
+        } catch (error) {
+            console.error('Failed to write page cache entry:', error);
+            return;
+        }
+
+        index.entries[key] = {
+            noteHash,
+            page,
+            options,
+            size: data.byteLength,
+            lastAccess: Date.now(),
+        };
+        await this.evict();
+        this.requestSave();
+    }
+
+    /**
+     * Remember which content hash a vault file currently has. When the file
+     * changes to a different hash, pages cached for the old contents are
+     * dropped.
+     */
+    async trackSource(path: string, noteHash: string): Promise<void> {
+        const index = await this.loadIndex();
+        const previous = index.sources[path];
+        index.sources[path] = noteHash;
+        if (previous && previous !== noteHash && !Object.values(index.sources).includes(previous)) {
+            await this.removeWhere(entry => entry.noteHash === previous);
+        }
+        this.requestSave();
+    }
+
+    /**
+     * Drop cached pages for a vault file that was modified or deleted.
+     */
+    async invalidatePath(path: string): Promise<void> {
+        const index = await this.loadIndex();
+        const noteHash = index.sources[path];
+        if (!noteHash) return;
+
+        delete index.sources[path];
+        if (!Object.values(index.sources).includes(noteHash)) {
+            await this.removeWhere(entry => entry.noteHash === noteHash);
+        }
+        this.requestSave();
+    }
+
+    renamePath(oldPath: string, newPath: string): void {
+        if (!this.index || !this.index.sources[oldPath]) return;
+        this.index.sources[newPath] = this.index.sources[oldPath];
+        delete this.index.sources[oldPath];
+        this.requestSave();
+    }
+
+    /**
+     * Write the index now if a save is pending, so nothing is lost on unload.
+     */
+    async flush(): Promise<void> {
+        await this.requestSave.run();
+    }
+
+    async clear(): Promise<void> {
+        await this.loadIndex();
+        await this.removeWhere(() => true);
+        if (this.index) {
+            this.index.sources = {};
+        }
+        await this.saveIndex();
+    }
+
+    getTotalSize(): number {
+        if (!this.index) return 0;
+        return Object.values(this.index.entries).reduce((total, entry) => total + entry.size, 0);
+    }
+
+    private getKey(noteHash: string, page: number, options: string): string {
+        // Keep file names short; the options string only needs to be distinct
+        let optionsHash = 0;
+        for (let i = 0; i < options.length; i++) {
+            optionsHash = (optionsHash * 31 + options.charCodeAt(i)) | 0;
+        }
+        return `${noteHash.substring(0, 32)}-${page}-${(optionsHash >>> 0).toString(16)}`;
+    }
+
+    private async evict(): Promise<void> {
+        const index = await this.loadIndex();
+        const maxBytes = this.settings.pageCacheMaxMB * 1024 * 1024;
+        let total = this.getTotalSize();
+        if (total <= maxBytes) return;
+
+        const byAge = Object.entries(index.entries).sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+        const evicted = new Set<string>();
+        for (const [key, entry] of byAge) {
+            if (total <= maxBytes) break;
+            evicted.add(key);
+            total -= entry.size;
+        }
+        await this.removeWhere((_, key) => evicted.has(key));
+    }
+
+    private async removeWhere(predicate: (entry: PageCacheEntry, key: string) => boolean): Promise<void> {
+        const index = await this.loadIndex();
+        for (const [key, entry] of Object.entries(index.entries)) {
+            if (!predicate(entry, key)) continue;
+            delete index.entries[key];
+            try {
+                await this.app.vault.adapter.remove(`${this.cacheDir}/${key}`);
+            } catch (error) {
+                // Already gone
+            }
+        }
+    }
+
+    private loadIndex(): Promise<PageCacheIndex> {
+        if (this.index) return Promise.resolve(this.index);
+        if (!this.loading) {
+            this.loading = (async () => {
+                let index: PageCacheIndex = { version: 1, entries: {}, sources: {} };
+                try {
+                    if (await this.app.vault.adapter.exists(this.indexPath)) {
+                        index = JSON.parse(await this.app.vault.adapter.read(this.indexPath));
+                    }
+                } catch (error) {
+                    console.error('Failed to read page cache index, starting fresh:', error);
+                }
+                this.index = index;
+                return index;
+            })();
+        }
+        return this.loading;
+    }
+
+    private async saveIndex(): Promise<void> {
+        if (!this.index) return;
+        try {
+            const adapter = this.app.vault.adapter;
+            if (!await adapter.exists(this.cacheDir)) {
+                await adapter.mkdir(this.cacheDir);
+            }
+            await adapter.write(this.indexPath, JSON.stringify(this.index));
+        } catch (error) {
+            console.error('Failed to write page cache index:', error);
+        }
+    }
+}
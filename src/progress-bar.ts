@@ -0,0 +1,56 @@
+import { Notice } from 'obsidian';
+
+/**
+ * A labelled progress bar.
+ */
+export class ProgressBar {
+    readonly el: HTMLElement;
+    private labelEl: HTMLElement;
+    private barEl: HTMLProgressElement;
+
+    constructor(container: HTMLElement | DocumentFragment, label = '') {
+        this.el = container.createDiv('supernote-progress');
+        this.labelEl = this.el.createDiv({ cls: 'supernote-progress-label', text: label });
+        this.barEl = this.el.createEl('progress');
+        this.barEl.value = 0;
+        this.barEl.max = 1;
+    }
+
+    update(value: number, max: number, label?: string): void {
+        this.barEl.max = Math.max(max, 1);
+        this.barEl.value = Math.min(value, this.barEl.max);
+        if (label !== undefined) {
+            this.labelEl.setText(label);
+        }
+    }
+
+    setLabel(label: string): void {
+        this.labelEl.setText(label);
+    }
+
+    remove(): void {
+        this.el.remove();
+    }
+}
+
+/**
+ * A notice that stays up with a progress bar until hidden.
+ */
+export class ProgressNotice {
+    private notice: Notice;
+    private bar: ProgressBar;
+
+    constructor(label: string) {
+        const fragment = document.createDocumentFragment();
+        this.bar = new ProgressBar(fragment, label);
+        this.notice = new Notice(fragment, 0);
+    }
+
+    update(value: number, max: number, label?: string): void {
+        this.bar.update(value, max, label);
+    }
+
+    hide(): void {
+        this.notice.hide();
+    }
+}
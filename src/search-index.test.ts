@@ -0,0 +1,44 @@
+import { IndexedNote, queryTerms, searchPages } from './search-index';
+
+function note(pages: string[]): IndexedNote {
+    return { mtime: 0, size: 0, pages };
+}
+
+describe('search index', () => {
+    const notes = {
+        'Work/Meeting.note': note(['Agenda: budget review', 'Budget numbers and budget owners']),
+        'Journal.note': note(['Walked by the river', '']),
+    };
+
+    it('should split queries into lower-cased words', () => {
+        expect(queryTerms('  Budget  Review ')).toEqual(['budget', 'review']);
+    });
+
+    it('should find pages containing every word, regardless of case', () => {
+        const hits = searchPages(notes, 'BUDGET review');
+
+        expect(hits).toHaveLength(1);
+        expect(hits[0]).toMatchObject({ path: 'Work/Meeting.note', page: 0, snippet: 'Agenda: budget review' });
+    });
+
+    it('should rank pages with more matches first', () => {
+        const hits = searchPages(notes, 'budget');
+
+        expect(hits.map(hit => hit.page)).toEqual([1, 0]);
+        expect(hits[0].score).toBe(2);
+    });
+
+    it('should trim long pages to the text around the match', () => {
+        const long = `${'a '.repeat(100)}needle${' b'.repeat(100)}`;
+        const [hit] = searchPages({ 'Long.note': note([long]) }, 'needle');
+
+        expect(hit.snippet.startsWith('…')).toBe(true);
+        expect(hit.snippet.endsWith('…')).toBe(true);
+        expect(hit.snippet).toContain('needle');
+        expect(hit.snippet.length).toBeLessThan(130);
+    });
+
+    it('should return nothing for empty queries', () => {
+        expect(searchPages(notes, '   ')).toEqual([]);
+    });
+});
@@ -0,0 +1,241 @@
+import { App, TFile, debounce, normalizePath } from 'obsidian';
+import { SupernoteX } from 'supernote';
+import { processSupernoteText } from './main';
+import { SupernotePluginSettings } from './settings';
+
+/** Recognized text of a note, as last indexed. */
+export interface IndexedNote {
+    /** Vault mtime and size when indexed, to skip unchanged notes. */
+    mtime: number;
+    size: number;
+    /** Text of every page after the custom dictionary was applied. */
+    pages: string[];
+}
+
+interface SearchIndexData {
+    version: 1;
+    /** Custom dictionary the text was processed with; reindex when it changes. */
+    dictionary: string;
+    /** Notes keyed by vault path. */
+    notes: Record<string, IndexedNote>;
+}
+
+function isSearchIndexData(value: unknown): value is SearchIndexData {
+    if (typeof value !== 'object' || value === null) return false;
+    const data = value as Partial<SearchIndexData>;
+    return data.version === 1
+        && typeof data.dictionary === 'string'
+        && typeof data.notes === 'object' && data.notes !== null
+        && Object.values(data.notes).every(note => Array.isArray(note?.pages));
+}
+
+/** A page whose text contains every word of a query. */
+export interface SearchHit {
+    path: string;
+    /** Page index, starting at 0. */
+    page: number;
+    /** Part of the page text around the first match. */
+    snippet: string;
+    /** Number of matches on the page, for ranking. */
+    score: number;
+}
+
+/** Characters of context on each side of the first match in a snippet. */
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Lower-cased words of a search query.
+ */
+export function queryTerms(query: string): string[] {
+    return query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+}
+
+function countOccurrences(text: string, term: string): number {
+    let count = 0;
+    for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+        count++;
+    }
+    return count;
+}
+
+function makeSnippet(text: string, index: number): string {
+    const start = Math.max(index - SNIPPET_RADIUS, 0);
+    const end = Math.min(index + SNIPPET_RADIUS, text.length);
+    const snippet = text.substring(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Find pages containing every word of the query, case-insensitively. Pages
+ * with more matches come first.
+ */
+export function searchPages(notes: Record<string, IndexedNote>, query: string, limit = 100): SearchHit[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    const hits: SearchHit[] = [];
+    for (const [path, note] of Object.entries(notes)) {
+        note.pages.forEach((text, page) => {
+            const lower = text.toLowerCase();
+            if (!terms.every(term => lower.includes(term))) return;
+            hits.push({
+                path,
+                page,
+                snippet: makeSnippet(text, lower.indexOf(terms[0])),
+                score: terms.reduce((total, term) => total + countOccurrences(lower, term), 0),
+            });
+        });
+    }
+    hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path) || a.page - b.page);
+    return hits.slice(0, limit);
+}
+
+/**
+ * Persisted index of the recognized text of every .note file in the vault,
+ * so handwriting can be searched without opening each note. Notes are
+ * indexed in the background and kept up to date from vault events.
+ */
+export class SearchIndex {
+    private app: App;
+    private settings: SupernotePluginSettings;
+    private indexPath: string;
+    private data: SearchIndexData | null = null;
+    private loading: Promise<SearchIndexData> | null = null;
+    private indexing: Promise<void> | null = null;
+    private requestSave = debounce(() => this.save(), 2000, true);
+
+    constructor(app: App, settings: SupernotePluginSettings, indexPath: string) {
+        this.app = app;
+        this.settings = settings;
+        this.indexPath = normalizePath(indexPath);
+    }
+
+    isIndexing(): boolean {
+        return this.indexing !== null;
+    }
+
+    /**
+     * Bring the index up to date with the vault, parsing notes that are new
+     * or changed since they were last indexed. Runs once at a time.
+     */
+    indexAll(): Promise<void> {
+        if (!this.indexing) {
+            this.indexing = this.runIndexAll().finally(() => {
+                this.indexing = null;
+            });
+        }
+        return this.indexing;
+    }
+
+    private async runIndexAll(): Promise<void> {
+        const data = await this.load();
+        const dictionary = this.dictionaryKey();
+        if (data.dictionary !== dictionary) {
+            data.dictionary = dictionary;
+            data.notes = {};
+        }
+
+        const files = this.app.vault.getFiles().filter(file => file.extension === 'note');
+        const paths = new Set(files.map(file => file.path));
+        for (const path of Object.keys(data.notes)) {
+            if (!paths.has(path)) {
+                delete data.notes[path];
+            }
+        }
+
+        for (const file of files) {
+            const indexed = data.notes[file.path];
+            if (indexed && indexed.mtime === file.stat.mtime && indexed.size === file.stat.size) continue;
+            await this.indexFile(file);
+            // Let the interface breathe between notes
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        this.requestSave();
+    }
+
+    /**
+     * Read a note's page text into the index. Notes that fail to parse are
+     * left out until they change again.
+     */
+    async indexFile(file: TFile): Promise<void> {
+        const data = await this.load();
+        try {
+            const sn = new SupernoteX(new Uint8Array(await this.app.vault.readBinary(file)));
+            data.notes[file.path] = {
+                mtime: file.stat.mtime,
+                size: file.stat.size,
+                pages: sn.pages.map(page => page.text ? processSupernoteText(page.text, this.settings) : ''),
+            };
+        } catch (error) {
+            console.error(`Failed to index ${file.path}:`, error);
+            delete data.notes[file.path];
+        }
+        this.requestSave();
+    }
+
+    remove(path: string): void {
+        if (!this.data || !this.data.notes[path]) return;
+        delete this.data.notes[path];
+        this.requestSave();
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        if (!this.data || !this.data.notes[oldPath]) return;
+        this.data.notes[newPath] = this.data.notes[oldPath];
+        delete this.data.notes[oldPath];
+        this.requestSave();
+    }
+
+    /**
+     * Write the index now if a save is pending, so nothing is lost on unload.
+     */
+    async flush(): Promise<void> {
+        await this.requestSave.run();
+    }
+
+    async search(query: string, limit?: number): Promise<SearchHit[]> {
+        const data = await this.load();
+        if (data.dictionary !== this.dictionaryKey()) {
+            // The custom dictionary changed; hits improve as the rebuild runs
+            this.indexAll();
+        }
+        return searchPages(data.notes, query, limit);
+    }
+
+    private dictionaryKey(): string {
+        return JSON.stringify(this.settings.isCustomDictionaryEnabled ? this.settings.customDictionary : []);
+    }
+
+    private load(): Promise<SearchIndexData> {
+        if (this.data) return Promise.resolve(this.data);
+        if (!this.loading) {
+            this.loading = (async () => {
+                let data: SearchIndexData = { version: 1, dictionary: this.dictionaryKey(), notes: {} };
+                try {
+                    if (await this.app.vault.adapter.exists(this.indexPath)) {
+                        const stored = JSON.parse(await this.app.vault.adapter.read(this.indexPath));
+                        if (isSearchIndexData(stored)) {
+                            data = stored;
+                        } else {
+                            console.warn('Search index has an unknown format, starting fresh');
+                        }
+                    }
+                } catch (error) {
+                    console.error('Failed to read search index, starting fresh:', error);
+                }
+                this.data = data;
+                return data;
+            })();
+        }
+        return this.loading;
+    }
+
+    private async save(): Promise<void> {
+        if (!this.data) return;
+        try {
+            await this.app.vault.adapter.write(this.indexPath, JSON.stringify(this.data));
+        } catch (error) {
+            console.error('Failed to write search index:', error);
+        }
+    }
+}
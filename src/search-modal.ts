@@ -0,0 +1,125 @@
+import { App, Keymap, SuggestModal, TFile } from 'obsidian';
+import { SupernoteX } from 'supernote';
+import { ImageConverter, RenderPriority, exportRenderOptions, isRenderCancelled } from './main';
+import { SearchHit, SearchIndex, queryTerms } from './search-index';
+import { SupernotePluginSettings } from './settings';
+
+/** Size of result thumbnails relative to the page. */
+const THUMBNAIL_SCALE = 0.1;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Searches the recognized text of every note and opens the note at the
+ * chosen page. Results show the page as a thumbnail next to the matching text.
+ */
+export class NoteSearchModal extends SuggestModal<SearchHit> {
+    private settings: SupernotePluginSettings;
+    private index: SearchIndex;
+    private converter = new ImageConverter();
+    private notes = new Map<string, Promise<{ sn: SupernoteX; buffer: Uint8Array }>>();
+    private urls: string[] = [];
+    /** Thumbnails of the current results; aborted when the results change. */
+    private controller = new AbortController();
+
+    constructor(app: App, settings: SupernotePluginSettings, index: SearchIndex) {
+        super(app);
+        this.settings = settings;
+        this.index = index;
+        this.limit = 50;
+        this.setPlaceholder('Search handwritten notes...');
+        this.emptyStateText = index.isIndexing() ? 'No matching pages yet, notes are still being indexed' : 'No matching pages';
+    }
+
+    async getSuggestions(query: string): Promise<SearchHit[]> {
+        this.controller.abort();
+        this.controller = new AbortController();
+        return this.index.search(query, this.limit);
+    }
+
+    renderSuggestion(hit: SearchHit, el: HTMLElement) {
+        el.addClass('supernote-search-result');
+        const thumbnail = el.createEl('img', { cls: 'supernote-search-thumbnail' });
+        if (this.settings.invertColorsWhenDark) {
+            thumbnail.addClass('supernote-invert-dark');
+        }
+
+        const body = el.createDiv('supernote-search-body');
+        const name = hit.path.substring(hit.path.lastIndexOf('/') + 1).replace(/\.note$/, '');
+        body.createDiv({ text: `${name}, page ${hit.page + 1}` });
+        this.renderSnippet(body.createEl('small'), hit.snippet);
+
+        this.loadThumbnail(hit, thumbnail, this.controller.signal);
+    }
+
+    onChooseSuggestion(hit: SearchHit, evt: MouseEvent | KeyboardEvent) {
+        const file = this.app.vault.getFileByPath(hit.path);
+        if (file) {
+            this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(file, { eState: { page: hit.page } });
+        }
+    }
+
+    onClose() {
+        super.onClose();
+        this.controller.abort();
+        this.urls.forEach(url => URL.revokeObjectURL(url));
+        this.urls = [];
+        this.notes.clear();
+    }
+
+    /** The snippet with the query's words marked. */
+    private renderSnippet(el: HTMLElement, snippet: string) {
+        const terms = queryTerms(this.inputEl.value);
+        if (terms.length === 0) {
+            el.setText(snippet);
+            return;
+        }
+        const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+        snippet.split(pattern).forEach((part, i) => {
+            // Split keeps the matches at odd indexes
+            if (i % 2 === 1) {
+                el.createEl('mark', { text: part });
+            } else if (part) {
+                el.appendText(part);
+            }
+        });
+    }
+
+    private async loadThumbnail(hit: SearchHit, img: HTMLImageElement, signal: AbortSignal) {
+        const file = this.app.vault.getFileByPath(hit.path);
+        if (!file) return;
+
+        try {
+            const { sn, buffer } = await this.loadNote(file);
+            const image = await this.converter.convertPage(sn, hit.page + 1, buffer, {
+                sourcePath: file.path,
+                priority: RenderPriority.Prefetch,
+                signal,
+                render: {
+                    ...exportRenderOptions(this.settings, null),
+                    output: { scale: THUMBNAIL_SCALE, format: 'png', quality: 90, bitDepth: 8 },
+                },
+            });
+            const url = URL.createObjectURL(new Blob([image], { type: 'image/png' }));
+            this.urls.push(url);
+            img.src = url;
+        } catch (error) {
+            if (isRenderCancelled(error)) return;
+            console.error(`Failed to render a thumbnail of ${hit.path}:`, error);
+        }
+    }
+
+    private loadNote(file: TFile): Promise<{ sn: SupernoteX; buffer: Uint8Array }> {
+        let note = this.notes.get(file.path);
+        if (!note) {
+            note = this.app.vault.readBinary(file).then(data => {
+                const buffer = new Uint8Array(data);
+                return { sn: new SupernoteX(buffer), buffer };
+            });
+            this.notes.set(file.path, note);
+        }
+        return note;
+    }
+}
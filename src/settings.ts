@@ -1,10 +1,31 @@
 import { createCustomDictionarySettingsUI, CUSTOM_DICTIONARY_DEFAULT_SETTINGS, CustomDictionarySettings } from "./customDictionary";
-import SupernotePlugin from "./main";
+import SupernotePlugin, { ImageFormat, InkPalette } from "./main";
 import { App, ExtraButtonComponent, PluginSettingTab, Setting } from 'obsidian';
+import { DEFAULT_MARKDOWN_TEMPLATE, renderTemplate, TemplateError } from './markdown-template';
 
 export const IP_VALIDATION_PATTERN = /^(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)(\.(25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)){3}$/;
 
 
+/** A device folder mirrored into a vault folder by the sync engine. */
+export interface SyncFolderPair {
+    /** Folder on the device, e.g. /Note/Work/ */
+    devicePath: string;
+    /** Vault folder that receives the mirrored files. */
+    vaultPath: string;
+}
+
+/** Size and encoding of exported page images. */
+export interface ExportProfile {
+    name: string;
+    /** Size relative to the device resolution. */
+    scale: number;
+    format: ImageFormat;
+    /** JPEG and WebP quality from 0 to 100. */
+    quality: number;
+    /** Bits per grey level: 8, 4, 2 or 1. */
+    bitDepth: number;
+}
+
 export interface SupernotePluginSettings extends CustomDictionarySettings {
     directConnectIP: string;
     invertColorsWhenDark: boolean;
@@ -13,6 +34,28 @@ export interface SupernotePluginSettings extends CustomDictionarySettings {
     collapseRecognizedText: boolean,
     noteImageMaxDim: number;
     defaultDisplayMode: 'png' | 'pdf';
+    syncFolderPairs: SyncFolderPair[];
+    autoSyncOnConnect: boolean;
+    autoSyncMinIntervalMinutes: number;
+    autoSyncExport: 'none' | 'markdown' | 'png' | 'pdf';
+    pageCacheEnabled: boolean;
+    pageCacheMaxMB: number;
+    exportLayers: 'all' | 'ink' | 'main';
+    exportTransparentPaper: boolean;
+    exportRecolorInk: boolean;
+    exportInkColors: InkPalette;
+    exportProfiles: ExportProfile[];
+    /** Name of the profile exports use unless one is picked. */
+    defaultExportProfile: string;
+    /** Markdown export template, the built-in one when empty. */
+    markdownTemplate: string;
+    markdownFrontmatter: boolean;
+    /** Re-exports rewrite the earlier Markdown export and its images. */
+    markdownUpdateInPlace: boolean;
+    /** Update a note's Markdown export whenever the note changes. */
+    refreshExportsOnChange: boolean;
+    /** Keep an index of the recognized text of all notes for searching. */
+    searchIndexEnabled: boolean;
 }
 
 export const DEFAULT_SETTINGS: SupernotePluginSettings = {
@@ -23,6 +66,32 @@ export const DEFAULT_SETTINGS: SupernotePluginSettings = {
     collapseRecognizedText: false,
     noteImageMaxDim: 800, // Sensible default for Nomad pages to be legible but not too big. Unit: px
     defaultDisplayMode: 'png', // Default to PNG view for better performance
+    syncFolderPairs: [],
+    autoSyncOnConnect: false,
+    autoSyncMinIntervalMinutes: 15,
+    autoSyncExport: 'none',
+    pageCacheEnabled: true,
+    pageCacheMaxMB: 200,
+    exportLayers: 'all',
+    exportTransparentPaper: false,
+    exportRecolorInk: false,
+    // The greys pages are rendered with on the device
+    exportInkColors: {
+        black: '#000000',
+        darkGray: '#a9a9a9',
+        gray: '#808080',
+        white: '#ffffff',
+    },
+    exportProfiles: [
+        { name: 'Original', scale: 1, format: 'png', quality: 90, bitDepth: 8 },
+        { name: 'Compact', scale: 0.75, format: 'jpeg', quality: 75, bitDepth: 8 },
+    ],
+    defaultExportProfile: 'Original',
+    markdownTemplate: '',
+    markdownFrontmatter: true,
+    markdownUpdateInPlace: false,
+    refreshExportsOnChange: false,
+    searchIndexEnabled: true,
     ...CUSTOM_DICTIONARY_DEFAULT_SETTINGS,
 }
 
@@ -141,7 +210,367 @@ export class SupernoteSettingTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(containerEl)
+            .setName('Export layers')
+            .setDesc('Which parts of each page PNG and PDF exports draw. Leave out the template for ink on plain white paper.')
+            .addDropdown(dropdown => dropdown
+                .addOption('all', 'All layers and template')
+                .addOption('ink', 'All layers, no template')
+                .addOption('main', 'Main layer only')
+                .setValue(this.plugin.settings.exportLayers)
+                .onChange(async (value: 'all' | 'ink' | 'main') => {
+                    this.plugin.settings.exportLayers = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Transparent paper')
+            .setDesc('Leave the white paper of exported pages transparent, so drawings sit on whatever is behind them. Template lines and dots are kept unless the template is left out above.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.exportTransparentPaper)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportTransparentPaper = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Recolor ink')
+            .setDesc('Paint the Supernote\'s ink levels with the colors below in exports, e.g. light ink for dark themes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.exportRecolorInk)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportRecolorInk = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+
+        if (this.plugin.settings.exportRecolorInk) {
+            const inkLevels: [keyof InkPalette, string][] = [
+                ['black', 'Black ink'],
+                ['darkGray', 'Dark gray ink'],
+                ['gray', 'Gray ink'],
+                ['white', 'White ink'],
+            ];
+            for (const [key, name] of inkLevels) {
+                new Setting(containerEl)
+                    .setName(name)
+                    .addColorPicker(picker => picker
+                        .setValue(this.plugin.settings.exportInkColors[key])
+                        .onChange(async (value) => {
+                            // Replace rather than mutate, the defaults object is shared
+                            this.plugin.settings.exportInkColors = { ...this.plugin.settings.exportInkColors, [key]: value };
+                            await this.plugin.saveSettings();
+                        })
+                    );
+            }
+        }
+
+        this.createExportProfileSettings(containerEl);
+        this.createMarkdownTemplateSettings(containerEl);
+
+        new Setting(containerEl)
+            .setName('Cache rendered pages')
+            .setDesc('Keep rendered pages in the plugin folder so reopening or re-exporting a note skips rendering. Pages are dropped when the .note file changes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.pageCacheEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.pageCacheEnabled = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Page cache size limit')
+            .setDesc('Maximum size of the page cache in MB. Least recently used pages are removed first.')
+            .addSlider(slider => slider
+                .setLimits(50, 2000, 50)
+                .setDynamicTooltip()
+                .setValue(this.plugin.settings.pageCacheMaxMB)
+                .onChange(async (value) => {
+                    this.plugin.settings.pageCacheMaxMB = value;
+                    await this.plugin.saveSettings();
+                })
+            )
+            .addExtraButton(btn => btn
+                .setIcon('trash-2')
+                .setTooltip('Clear page cache')
+                .onClick(async () => {
+                    await this.plugin.clearPageCache();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Search index')
+            .setDesc('Index the recognized text of every note in the vault in the background, for the "Search handwritten notes" command.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.searchIndexEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.searchIndexEnabled = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        this.plugin.searchIndex.indexAll();
+                    }
+                })
+            );
+
+        this.createSyncSettings(containerEl);
+
         // Add custom dictionary settings to the settings tab
         createCustomDictionarySettingsUI(containerEl, this.plugin);
     }
+
+    private createExportProfileSettings(containerEl: HTMLElement): void {
+        const settings = this.plugin.settings;
+
+        new Setting(containerEl)
+            .setName('Export profiles')
+            .setDesc('Size and encoding of page images in PNG and PDF exports. Scale, JPEG or WebP and fewer grey levels make for much smaller files. Commands ending in "with a profile..." let you pick one per export.')
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName('Default export profile')
+            .addDropdown(dropdown => {
+                settings.exportProfiles.forEach(profile => dropdown.addOption(profile.name, profile.name));
+                dropdown
+                    .setValue(settings.defaultExportProfile)
+                    .onChange(async (value) => {
+                        settings.defaultExportProfile = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        settings.exportProfiles.forEach((profile, index) => {
+            new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Profile name')
+                    .setValue(profile.name)
+                    .onChange(async (value) => {
+                        if (settings.defaultExportProfile === profile.name) {
+                            settings.defaultExportProfile = value;
+                        }
+                        profile.name = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => dropdown
+                    .addOption('png', 'PNG')
+                    .addOption('jpeg', 'JPEG')
+                    .addOption('webp', 'WebP')
+                    .setValue(profile.format)
+                    .onChange(async (value: ImageFormat) => {
+                        profile.format = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => dropdown
+                    .addOption('0.25', '25%')
+                    .addOption('0.5', '50%')
+                    .addOption('0.75', '75%')
+                    .addOption('1', '100%')
+                    .addOption('1.5', '150%')
+                    .addOption('2', '200%')
+                    .setValue(String(profile.scale))
+                    .onChange(async (value) => {
+                        profile.scale = parseFloat(value);
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => dropdown
+                    .addOption('8', '256 greys')
+                    .addOption('4', '16 greys')
+                    .addOption('2', '4 greys')
+                    .addOption('1', 'Black and white')
+                    .setValue(String(profile.bitDepth))
+                    .onChange(async (value) => {
+                        profile.bitDepth = parseInt(value, 10);
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addSlider(slider => slider
+                    .setLimits(10, 100, 5)
+                    .setDynamicTooltip()
+                    .setValue(profile.quality)
+                    .onChange(async (value) => {
+                        profile.quality = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addExtraButton(btn => btn
+                    .setIcon('trash-2')
+                    .setTooltip('Remove profile')
+                    .onClick(async () => {
+                        settings.exportProfiles.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+        });
+
+        new Setting(containerEl)
+            .addButton(btn => btn
+                .setButtonText('Add profile')
+                .onClick(async () => {
+                    settings.exportProfiles.push({ name: `Profile ${settings.exportProfiles.length + 1}`, scale: 1, format: 'png', quality: 90, bitDepth: 8 });
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+    }
+
+    private createMarkdownTemplateSettings(containerEl: HTMLElement): void {
+        const settings = this.plugin.settings;
+
+        new Setting(containerEl)
+            .setName('Markdown frontmatter')
+            .setDesc('Start Markdown exports with properties for the source note, its path on the device, page count and size, dates, file version and keywords as tags, for Dataview and similar tools.')
+            .addToggle(toggle => toggle
+                .setValue(settings.markdownFrontmatter)
+                .onChange(async (value) => {
+                    settings.markdownFrontmatter = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Update exports in place')
+            .setDesc('Exporting a note again rewrites its earlier Markdown export instead of creating a new one. Only pages that changed are rendered again, and anything written outside the generated section is kept.')
+            .addToggle(toggle => toggle
+                .setValue(settings.markdownUpdateInPlace)
+                .onChange(async (value) => {
+                    settings.markdownUpdateInPlace = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Refresh exports when notes change')
+            .setDesc('When a note is changed, for example by sync, update its earlier Markdown export the same way.')
+            .addToggle(toggle => toggle
+                .setValue(settings.refreshExportsOnChange)
+                .onChange(async (value) => {
+                    settings.refreshExportsOnChange = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        const templateSetting = new Setting(containerEl)
+            .setName('Markdown template')
+            .setDesc('Layout of Markdown exports. Note values: {{noteName}}, {{noteLink}}, {{sourcePath}}, {{created}}, {{modified}}, {{pageCount}}, {{titles}}, {{keywords}}, {{tags}}. Inside {{#pages}}...{{/pages}}: {{pageNumber}}, {{text}}, {{image}}, {{renderFailed}}, {{pageTitles}}, {{pageHeadings}}, {{pageKeywords}}, {{pageTags}}. Use {{#if name}}...{{else}}...{{/if}} for optional parts and {{created:YYYY-MM-DD HH:mm}} to format dates.')
+            .setClass('supernote-template-setting');
+        const errorEl = templateSetting.descEl.createDiv('supernote-template-error');
+
+        templateSetting
+            .addTextArea(text => {
+                text.inputEl.rows = 14;
+                text
+                    .setValue(settings.markdownTemplate || DEFAULT_MARKDOWN_TEMPLATE)
+                    .onChange(async (value) => {
+                        try {
+                            renderTemplate(value, { note: {}, pages: [] });
+                            errorEl.setText('');
+                        } catch (error) {
+                            errorEl.setText(error instanceof TemplateError ? error.message : String(error));
+                        }
+                        settings.markdownTemplate = value === DEFAULT_MARKDOWN_TEMPLATE ? '' : value;
+                        await this.plugin.saveSettings();
+                    });
+            })
+            .addExtraButton(btn => btn
+                .setIcon('rotate-ccw')
+                .setTooltip('Restore the default template')
+                .onClick(async () => {
+                    settings.markdownTemplate = '';
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+    }
+
+    private createSyncSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Folder sync')
+            .setDesc('Mirror device folders into vault folders. Only new or changed files are transferred; .note, .pdf, .epub and .txt files changed in the vault are uploaded back to the device.')
+            .setHeading();
+
+        this.plugin.settings.syncFolderPairs.forEach((pair, index) => {
+            new Setting(containerEl)
+                .addText(text => text
+                    .setPlaceholder('Device folder e.g. /Note/Work/')
+                    .setValue(pair.devicePath)
+                    .onChange(async (value) => {
+                        pair.devicePath = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addText(text => text
+                    .setPlaceholder('Vault folder e.g. Supernote/Work')
+                    .setValue(pair.vaultPath)
+                    .onChange(async (value) => {
+                        pair.vaultPath = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addExtraButton(btn => btn
+                    .setIcon('trash-2')
+                    .setTooltip('Remove folder pair')
+                    .onClick(async () => {
+                        this.plugin.settings.syncFolderPairs.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+        });
+
+        new Setting(containerEl)
+            .addButton(btn => btn
+                .setButtonText('Add folder pair')
+                .onClick(async () => {
+                    this.plugin.settings.syncFolderPairs.push({ devicePath: '', vaultPath: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Pull automatically when the device connects')
+            .setDesc('When the Supernote appears on the network (e.g. "Browse & Access" is turned on), download new or changed .note files into the sync folders.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoSyncOnConnect)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncOnConnect = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Minimum time between automatic pulls')
+            .setDesc('Minutes to wait before pulling again after the device reconnects.')
+            .addSlider(slider => slider
+                .setLimits(0, 120, 5)
+                .setDynamicTooltip()
+                .setValue(this.plugin.settings.autoSyncMinIntervalMinutes)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoSyncMinIntervalMinutes = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        new Setting(containerEl)
+            .setName('Export pulled notes')
+            .setDesc('Automatically export notes downloaded by an automatic pull.')
+            .addDropdown(dropdown => dropdown
+                .addOption('none', 'Do not export')
+                .addOption('markdown', 'Markdown')
+                .addOption('png', 'Markdown and PNG images')
+                .addOption('pdf', 'PDF')
+                .setValue(this.plugin.settings.autoSyncExport)
+                .onChange(async (value: 'none' | 'markdown' | 'png' | 'pdf') => {
+                    this.plugin.settings.autoSyncExport = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+    }
 }
@@ -0,0 +1,90 @@
+import { getPageStrokes, pageToSvg } from './svg-export';
+
+const UNITS = 15819 / 1872;
+
+/** A stroke record: pen, color, weight, layer, points as (y, x), pressures. */
+function stroke(color: number, weight: number, points: [number, number][], layer = 0): number[] {
+    const words = [10, color, weight, layer, points.length];
+    for (const [x, y] of points) {
+        words.push(Math.round(y * UNITS), Math.round(x * UNITS));
+    }
+    const bytes = new Uint8Array(words.length * 4 + points.length * 2);
+    const view = new DataView(bytes.buffer);
+    words.forEach((word, i) => view.setUint32(i * 4, word, true));
+    points.forEach((_, i) => view.setUint16(words.length * 4 + i * 2, 2000, true));
+    return [...bytes];
+}
+
+function note(strokes: number[][]): any {
+    const body: number[] = [];
+    const header = new DataView(new ArrayBuffer(4));
+    header.setUint32(0, strokes.length, true);
+    body.push(...new Uint8Array(header.buffer));
+    for (const record of strokes) {
+        const size = new DataView(new ArrayBuffer(4));
+        size.setUint32(0, record.length, true);
+        body.push(...new Uint8Array(size.buffer), ...record);
+    }
+    return {
+        pageWidth: 1404,
+        pageHeight: 1872,
+        pages: [{ totalPathBuffer: new Uint8Array(body) }, { totalPathBuffer: null }]
+    };
+}
+
+describe('SVG export', () => {
+    it('should read stroke points, width, color and layer', () => {
+        const sn = note([stroke(0x9d, 300, [[10, 20], [110, 220]], 2)]);
+
+        const strokes = getPageStrokes(sn, 0);
+
+        expect(strokes).toHaveLength(1);
+        expect(strokes[0].color).toBe(0x9d);
+        expect(strokes[0].width).toBe(3);
+        expect(strokes[0].layer).toBe('LAYER2');
+        expect(strokes[0].points[1].x).toBeCloseTo(110, 0);
+        expect(strokes[0].points[1].y).toBeCloseTo(220, 0);
+    });
+
+    it('should skip records that do not follow the layout', () => {
+        const truncated = stroke(0, 200, [[10, 20], [30, 40]]).slice(0, -2);
+        const offPage = stroke(0, 200, [[10, 5000]]);
+        const sn = note([truncated, offPage, stroke(0, 200, [[50, 50]])]);
+
+        expect(getPageStrokes(sn, 0)).toHaveLength(1);
+    });
+
+    it('should return no strokes for pages without stroke data', () => {
+        expect(getPageStrokes(note([]), 1)).toEqual([]);
+    });
+
+    it('should draw one path per stroke on white paper', () => {
+        const sn = note([stroke(0, 200, [[10, 20], [30, 40]]), stroke(0xc9, 250, [[50, 50]])]);
+
+        const svg = pageToSvg(sn, 0);
+
+        expect(svg).toContain('viewBox="0 0 1404 1872"');
+        expect(svg).toContain('fill="#ffffff"');
+        expect(svg.match(/<path /g)).toHaveLength(2);
+        expect(svg).toContain('stroke="#c9c9c9" stroke-width="2.5"');
+    });
+
+    it('should only draw strokes of the selected layers', () => {
+        const sn = note([stroke(0, 200, [[10, 20], [30, 40]], 0), stroke(0, 200, [[50, 50]], 1)]);
+
+        const svg = pageToSvg(sn, 0, { layers: ['LAYER1'] });
+
+        expect(svg.match(/<path /g)).toHaveLength(1);
+        expect(svg).toMatch(/d="M50(\.1)? 50(\.1)?h0"/);
+    });
+
+    it('should apply the ink palette and transparent paper', () => {
+        const sn = note([stroke(0, 200, [[10, 20], [30, 40]])]);
+        const inkColors = { black: '#e0e0e0', darkGray: '#a0a0a0', gray: '#808080', white: '#000000' };
+
+        const svg = pageToSvg(sn, 0, { transparentPaper: true, inkColors });
+
+        expect(svg).not.toContain('<rect');
+        expect(svg).toContain('stroke="#e0e0e0"');
+    });
+});
@@ -0,0 +1,160 @@
+import { SupernoteX } from 'supernote';
+import type { InkPalette, NoteLayerName, RenderOptions } from './myworker.worker';
+
+/** A point in page pixels. */
+export interface StrokePoint {
+    x: number;
+    y: number;
+}
+
+/** A pen stroke read from a page's TOTALPATH block. */
+export interface NoteStroke {
+    penType: number;
+    /** Device color code, which doubles as the grey level (0 is black). */
+    color: number;
+    /** Pen width in page pixels. */
+    width: number;
+    /** Drawing layer the stroke was made on. */
+    layer: NoteLayerName;
+    points: StrokePoint[];
+}
+
+/**
+ * Layout of a TOTALPATH block, all numbers little-endian u32: the stroke
+ * count, then for every stroke its record size and the record. A record
+ * starts with a fixed header, followed by the points as (y, x) pairs and
+ * one u16 pressure per point.
+ */
+const RECORD_PEN_TYPE = 0;
+const RECORD_COLOR = 4;
+const RECORD_WEIGHT = 8;
+const RECORD_LAYER = 12;
+const RECORD_POINT_COUNT = 16;
+const RECORD_POINTS = 20;
+const POINT_SIZE = 8;
+const PRESSURE_SIZE = 2;
+
+/** Layer numbers of stroke records, 0 being the main layer. */
+const STROKE_LAYERS: NoteLayerName[] = ['MAINLAYER', 'LAYER1', 'LAYER2', 'LAYER3'];
+
+/**
+ * Digitizer units per page pixel. Stroke points are recorded by the pen
+ * digitizer at a finer resolution than the screen.
+ */
+const UNITS_PER_PIXEL = 15819 / 1872;
+
+/** Stored pen weights are in hundredths of a pixel. */
+const WEIGHT_PER_PIXEL = 100;
+
+/** Device color codes and the palette entry each one is painted with. */
+const INK_CODES: Record<number, keyof InkPalette> = {
+    0x00: 'black',
+    0x9d: 'darkGray',
+    0xc9: 'gray',
+    0xfe: 'white',
+};
+
+/**
+ * Read one stroke record, or null when it does not follow the layout: an
+ * unknown layer, a size that does not match its point count, or points
+ * outside the page.
+ */
+function readStroke(view: DataView, start: number, size: number, maxX: number, maxY: number): NoteStroke | null {
+    if (size < RECORD_POINTS) return null;
+
+    const layer = STROKE_LAYERS[view.getUint32(start + RECORD_LAYER, true)];
+    const count = view.getUint32(start + RECORD_POINT_COUNT, true);
+    if (!layer || count === 0 || size !== RECORD_POINTS + count * (POINT_SIZE + PRESSURE_SIZE)) return null;
+
+    const points: StrokePoint[] = [];
+    for (let i = 0; i < count; i++) {
+        const offset = start + RECORD_POINTS + i * POINT_SIZE;
+        const y = view.getUint32(offset, true);
+        const x = view.getUint32(offset + 4, true);
+        if (x > maxX || y > maxY) return null;
+        points.push({ x: x / UNITS_PER_PIXEL, y: y / UNITS_PER_PIXEL });
+    }
+
+    return {
+        penType: view.getUint32(start + RECORD_PEN_TYPE, true),
+        color: view.getUint32(start + RECORD_COLOR, true) & 0xff,
+        width: Math.max(view.getUint32(start + RECORD_WEIGHT, true) / WEIGHT_PER_PIXEL, 0.5),
+        layer,
+        points,
+    };
+}
+
+/**
+ * Strokes of a page, in drawing order. Records that do not follow the layout
+ * are skipped; pages without stroke data yield an empty array.
+ */
+export function getPageStrokes(sn: SupernoteX, pageIndex: number): NoteStroke[] {
+    const buffer = sn.pages[pageIndex]?.totalPathBuffer ?? null;
+    if (!buffer || buffer.length < 4) return [];
+
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const maxX = sn.pageWidth * UNITS_PER_PIXEL;
+    const maxY = sn.pageHeight * UNITS_PER_PIXEL;
+    const strokes: NoteStroke[] = [];
+
+    const count = view.getUint32(0, true);
+    let offset = 4;
+    for (let i = 0; i < count && offset + 4 <= buffer.length; i++) {
+        const size = view.getUint32(offset, true);
+        const start = offset + 4;
+        offset = start + size;
+        if (offset > buffer.length) break;
+
+        const stroke = readStroke(view, start, size, maxX, maxY);
+        if (stroke) {
+            strokes.push(stroke);
+        }
+    }
+    return strokes;
+}
+
+function strokeColor(color: number, inkColors?: InkPalette): string {
+    const ink = INK_CODES[color];
+    if (inkColors && ink) {
+        return inkColors[ink];
+    }
+    const hex = color.toString(16).padStart(2, '0');
+    return `#${hex}${hex}${hex}`;
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Build an SVG document of a page's strokes, one path per stroke with its
+ * pen width and grey level. The render options pick the layers, the ink
+ * colors and whether the paper is transparent.
+ */
+export function pageToSvg(sn: SupernoteX, pageIndex: number, options: RenderOptions = {}): string {
+    const { pageWidth, pageHeight } = sn;
+    const lines = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}" height="${pageHeight}" viewBox="0 0 ${pageWidth} ${pageHeight}">`,
+    ];
+    if (!options.transparentPaper) {
+        lines.push(`<rect width="100%" height="100%" fill="#ffffff"/>`);
+    }
+
+    for (const stroke of getPageStrokes(sn, pageIndex)) {
+        if (options.layers && !options.layers.includes(stroke.layer)) continue;
+
+        const [first, ...rest] = stroke.points;
+        let d = `M${formatNumber(first.x)} ${formatNumber(first.y)}`;
+        if (rest.length === 0) {
+            // A dot: a zero length line still gets round caps
+            d += 'h0';
+        }
+        for (const point of rest) {
+            d += `L${formatNumber(point.x)} ${formatNumber(point.y)}`;
+        }
+        lines.push(`<path d="${d}" fill="none" stroke="${strokeColor(stroke.color, options.inkColors)}" stroke-width="${formatNumber(stroke.width)}" stroke-linecap="round" stroke-linejoin="round"/>`);
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n');
+}
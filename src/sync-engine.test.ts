@@ -0,0 +1,134 @@
+import { planSync, DeviceEntry, VaultEntry, SyncManifestEntry } from './sync-engine';
+
+function device(relativePath: string, date: string, size: number): DeviceEntry {
+    const name = relativePath.split('/').pop() as string;
+    return {
+        relativePath,
+        file: {
+            name,
+            size,
+            date,
+            uri: `/Note/${relativePath}`,
+            extension: name.split('.').pop() as string,
+            isDirectory: false
+        }
+    };
+}
+
+function vault(relativePath: string, mtime: number, size = 10): VaultEntry {
+    return {
+        relativePath,
+        file: {
+            path: `Supernote/${relativePath}`,
+            extension: relativePath.split('.').pop(),
+            stat: { mtime, size }
+        } as any
+    };
+}
+
+function entry(relativePath: string, date: string, size: number, vaultMtime: number): SyncManifestEntry {
+    return {
+        deviceUri: `/Note/${relativePath}`,
+        vaultPath: `Supernote/${relativePath}`,
+        date,
+        size,
+        vaultMtime
+    };
+}
+
+describe('planSync', () => {
+    it('should download files that are missing from the vault', () => {
+        const actions = planSync([device('a.note', '2024-01-01', 10)], [], {});
+
+        expect(actions).toHaveLength(1);
+        expect(actions[0]).toMatchObject({ type: 'download', relativePath: 'a.note' });
+    });
+
+    it('should skip files that are unchanged on both sides', () => {
+        const actions = planSync(
+            [device('a.note', '2024-01-01', 10)],
+            [vault('a.note', 100)],
+            { 'a.note': entry('a.note', '2024-01-01', 10, 100) }
+        );
+
+        expect(actions).toEqual([]);
+    });
+
+    it('should download files whose device date or size changed', () => {
+        const actions = planSync(
+            [device('a.note', '2024-01-01', 12), device('b.note', '2024-02-01', 10)],
+            [vault('a.note', 100), vault('b.note', 100)],
+            {
+                'a.note': entry('a.note', '2024-01-01', 10, 100),
+                'b.note': entry('b.note', '2024-01-01', 10, 100)
+            }
+        );
+
+        expect(actions.map(a => [a.type, a.relativePath])).toEqual([
+            ['download', 'a.note'],
+            ['download', 'b.note']
+        ]);
+    });
+
+    it('should upload files changed only in the vault', () => {
+        const actions = planSync(
+            [device('dir/a.note', '2024-01-01', 10)],
+            [vault('dir/a.note', 200)],
+            { 'dir/a.note': entry('dir/a.note', '2024-01-01', 10, 100) }
+        );
+
+        expect(actions).toHaveLength(1);
+        expect(actions[0]).toMatchObject({ type: 'upload', relativePath: 'dir/a.note' });
+    });
+
+    it('should report files changed on both sides as conflicts', () => {
+        const actions = planSync(
+            [device('a.note', '2024-03-01', 10)],
+            [vault('a.note', 200)],
+            { 'a.note': entry('a.note', '2024-01-01', 10, 100) }
+        );
+
+        expect(actions[0]).toMatchObject({ type: 'conflict', relativePath: 'a.note' });
+    });
+
+    it('should match files already on both sides by size on the first sync', () => {
+        const actions = planSync(
+            [device('same.note', '2024-01-01', 10), device('other.note', '2024-01-01', 10)],
+            [vault('same.note', 100), vault('other.note', 100, 12)],
+            {}
+        );
+
+        expect(actions.map(a => [a.type, a.relativePath])).toEqual([
+            ['match', 'same.note'],
+            ['conflict', 'other.note']
+        ]);
+    });
+
+    it('should not download synced files deleted from the vault again', () => {
+        const manifest = {
+            'kept.note': entry('kept.note', '2024-01-01', 10, 100),
+            'changed.note': entry('changed.note', '2024-01-01', 10, 100)
+        };
+
+        const actions = planSync([device('kept.note', '2024-01-01', 10), device('changed.note', '2024-02-01', 10)], [], manifest);
+
+        expect(actions.map(a => [a.type, a.relativePath])).toEqual([
+            ['deleted', 'kept.note'],
+            ['download', 'changed.note']
+        ]);
+    });
+
+    it('should upload new vault files of supported types only', () => {
+        const actions = planSync([], [vault('new.note', 1), vault('export.md', 1)], {});
+
+        expect(actions.map(a => [a.type, a.relativePath])).toEqual([['upload', 'new.note']]);
+    });
+
+    it('should not re-upload files deleted on the device', () => {
+        const actions = planSync([], [vault('gone.note', 100)], {
+            'gone.note': entry('gone.note', '2024-01-01', 10, 100)
+        });
+
+        expect(actions).toEqual([]);
+    });
+});
@@ -0,0 +1,392 @@
+import { App, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import { BatchFileManager, SupernoteFile, uploadToSupernote } from './batch-file-manager';
+import { SupernotePluginSettings, SyncFolderPair } from './settings';
+
+/** File types that are pushed back to the device when changed in the vault. */
+export const SYNC_UPLOAD_EXTENSIONS = ['note', 'pdf', 'epub', 'txt'];
+
+/** Last synced state of a single mirrored file. */
+export interface SyncManifestEntry {
+    /** Device URI of the file, e.g. /Note/Work/meeting.note */
+    deviceUri: string;
+    /** Vault path of the mirrored copy. */
+    vaultPath: string;
+    /** Device modification date as reported by the file listing. */
+    date: string;
+    /** Device file size in bytes. */
+    size: number;
+    /** Vault mtime of the mirrored copy right after the last transfer. */
+    vaultMtime: number;
+    /** Set once the vault copy was deleted; the device file is not pulled again. */
+    deleted?: boolean;
+}
+
+export interface SyncManifest {
+    version: 1;
+    /** Entries keyed by vault path. */
+    entries: Record<string, SyncManifestEntry>;
+}
+
+export interface DeviceEntry {
+    /** Path relative to the synced device folder, using '/' separators. */
+    relativePath: string;
+    file: SupernoteFile;
+}
+
+export interface VaultEntry {
+    /** Path relative to the synced vault folder, using '/' separators. */
+    relativePath: string;
+    file: TFile;
+}
+
+export type SyncAction =
+    | { type: 'download'; relativePath: string; device: DeviceEntry }
+    | { type: 'upload'; relativePath: string; vault: VaultEntry }
+    | { type: 'conflict'; relativePath: string; device: DeviceEntry; vault: VaultEntry }
+    /** Both sides already have the same file; only the manifest is updated. */
+    | { type: 'match'; relativePath: string; device: DeviceEntry; vault: VaultEntry }
+    /** The vault copy was deleted; the device file is left alone. */
+    | { type: 'deleted'; relativePath: string; device: DeviceEntry };
+
+export interface SyncOptions {
+    /** 'pull' only downloads from the device; 'both' also uploads vault changes. */
+    direction?: 'both' | 'pull';
+    /** Restrict the sync to files with these extensions. */
+    extensions?: string[];
+    /** Aborts the sync between file transfers. */
+    signal?: AbortSignal;
+}
+
+export interface SyncResult {
+    downloaded: string[];
+    uploaded: string[];
+    conflicts: string[];
+    failed: { path: string; error: string }[];
+}
+
+/**
+ * Decide which files need to move for one folder pair.
+ *
+ * A device file is considered changed when its `date` or `size` differs from
+ * the manifest; a vault file is changed when its mtime differs from the one
+ * recorded after the last transfer. Files changed on both sides are reported
+ * as conflicts and left untouched.
+ *
+ * Files found on both sides without a manifest entry, e.g. on the first sync
+ * into a folder that already has the notes, match when their sizes do.
+ * Synced files deleted from the vault are not downloaded again until they
+ * change on the device.
+ */
+export function planSync(
+    deviceEntries: DeviceEntry[],
+    vaultEntries: VaultEntry[],
+    manifestEntries: Record<string, SyncManifestEntry | undefined>
+): SyncAction[] {
+    const actions: SyncAction[] = [];
+    const vaultByPath = new Map(vaultEntries.map(entry => [entry.relativePath, entry]));
+    const seen = new Set<string>();
+
+    for (const device of deviceEntries) {
+        const relativePath = device.relativePath;
+        seen.add(relativePath);
+
+        const previous = manifestEntries[relativePath];
+        const vault = vaultByPath.get(relativePath);
+
+        const deviceChanged = !previous || previous.date !== device.file.date || previous.size !== device.file.size;
+        const vaultChanged = !!vault && (!previous || previous.vaultMtime !== vault.file.stat.mtime);
+
+        if (!vault) {
+            if (previous && !deviceChanged) {
+                actions.push({ type: 'deleted', relativePath, device });
+            } else {
+                actions.push({ type: 'download', relativePath, device });
+            }
+        } else if (!previous && vault.file.stat.size === device.file.size) {
+            actions.push({ type: 'match', relativePath, device, vault });
+        } else if (deviceChanged && vaultChanged) {
+            actions.push({ type: 'conflict', relativePath, device, vault });
+        } else if (deviceChanged) {
+            actions.push({ type: 'download', relativePath, device });
+        } else if (vaultChanged && SYNC_UPLOAD_EXTENSIONS.includes(vault.file.extension)) {
+            actions.push({ type: 'upload', relativePath, vault });
+        }
+    }
+
+    for (const vault of vaultEntries) {
+        if (seen.has(vault.relativePath)) continue;
+        // Files that were synced before but are gone from the device were
+        // deleted there; don't resurrect them.
+        if (manifestEntries[vault.relativePath]) continue;
+        if (!SYNC_UPLOAD_EXTENSIONS.includes(vault.file.extension)) continue;
+        actions.push({ type: 'upload', relativePath: vault.relativePath, vault });
+    }
+
+    return actions;
+}
+
+export class SyncEngine {
+    private app: App;
+    private settings: SupernotePluginSettings;
+    private batchFileManager: BatchFileManager;
+    private manifestPath: string;
+    private manifest: SyncManifest | null = null;
+    private running = false;
+
+    constructor(app: App, settings: SupernotePluginSettings, batchFileManager: BatchFileManager, manifestPath: string) {
+        this.app = app;
+        this.settings = settings;
+        this.batchFileManager = batchFileManager;
+        this.manifestPath = normalizePath(manifestPath);
+    }
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Sync every configured folder pair.
+     */
+    async syncAll(options: SyncOptions = {}): Promise<SyncResult> {
+        if (this.running) {
+            throw new Error('A sync is already in progress');
+        }
+
+        this.running = true;
+        const result: SyncResult = { downloaded: [], uploaded: [], conflicts: [], failed: [] };
+        try {
+            await this.loadManifest();
+            this.throwIfAborted(options.signal);
+            for (const pair of this.settings.syncFolderPairs) {
+                try {
+                    await this.syncPair(pair, result, options);
+                } catch (error) {
+                    if (options.signal?.aborted) {
+                        throw error;
+                    }
+                    console.error(`Sync failed for ${pair.devicePath}:`, error);
+                    result.failed.push({ path: pair.devicePath, error: error.message });
+                }
+            }
+        } finally {
+            // Keep whatever was transferred, even if the sync was cancelled
+            await this.saveManifest();
+            this.running = false;
+        }
+        return result;
+    }
+
+    /**
+     * Look up the device URI a vault file was last synced from.
+     */
+    async getDeviceUri(vaultPath: string): Promise<string | null> {
+        await this.loadManifest();
+        const entry = this.manifest?.entries[vaultPath];
+        return entry && !entry.deleted ? entry.deviceUri : null;
+    }
+
+    /**
+     * Look up the vault copy of a synced device file, e.g. /Note/Work/meeting.note.
+     */
+    async getVaultPath(deviceUri: string): Promise<string | null> {
+        await this.loadManifest();
+        const uri = `/${deviceUri.trim().replace(/^\/+/, '')}`;
+        return Object.values(this.getManifest().entries).find(entry => entry.deviceUri === uri && !entry.deleted)?.vaultPath ?? null;
+    }
+
+    private async syncPair(pair: SyncFolderPair, result: SyncResult, options: SyncOptions): Promise<void> {
+        const devicePath = this.normalizeDevicePath(pair.devicePath);
+        const vaultPath = normalizePath(pair.vaultPath);
+
+        const deviceEntries = await this.listDeviceFiles(devicePath);
+        const vaultEntries = this.listVaultFiles(vaultPath);
+
+        const manifestEntries: Record<string, SyncManifestEntry | undefined> = {};
+        for (const entry of Object.values(this.getManifest().entries)) {
+            if (entry.vaultPath.startsWith(`${vaultPath}/`)) {
+                manifestEntries[entry.vaultPath.substring(vaultPath.length + 1)] = entry;
+            }
+        }
+
+        const actions = planSync(deviceEntries, vaultEntries, manifestEntries).filter(action => {
+            if (options.direction === 'pull' && action.type === 'upload') return false;
+            if (options.extensions) {
+                const extension = action.relativePath.split('.').pop()?.toLowerCase() ?? '';
+                return options.extensions.includes(extension);
+            }
+            return true;
+        });
+        let uploaded = false;
+
+        for (const action of actions) {
+            this.throwIfAborted(options.signal);
+            const targetPath = normalizePath(`${vaultPath}/${action.relativePath}`);
+            try {
+                if (action.type === 'download') {
+                    await this.download(action.device.file, targetPath, options.signal);
+                    result.downloaded.push(targetPath);
+                } else if (action.type === 'upload') {
+                    await this.upload(action.vault.file, devicePath, action.relativePath);
+                    result.uploaded.push(targetPath);
+                    uploaded = true;
+                } else if (action.type === 'match') {
+                    this.recordEntry(action.device.file, action.vault.file);
+                } else if (action.type === 'deleted') {
+                    const entry = this.getManifest().entries[targetPath];
+                    if (entry) entry.deleted = true;
+                } else {
+                    console.warn(`Sync conflict, skipping ${targetPath}: changed on both device and vault`);
+                    result.conflicts.push(targetPath);
+                }
+            } catch (error) {
+                if (options.signal?.aborted) {
+                    throw error;
+                }
+                console.error(`Failed to sync ${targetPath}:`, error);
+                result.failed.push({ path: targetPath, error: error.message });
+            }
+        }
+
+        // The device assigns its own date and size to uploaded files, so
+        // record them now to avoid pulling our own uploads back next time.
+        if (uploaded) {
+            const refreshed = await this.listDeviceFiles(devicePath);
+            for (const device of refreshed) {
+                const targetPath = normalizePath(`${vaultPath}/${device.relativePath}`);
+                if (result.uploaded.includes(targetPath)) {
+                    const file = this.app.vault.getFileByPath(targetPath);
+                    if (file) {
+                        this.recordEntry(device.file, file);
+                    }
+                }
+            }
+        }
+    }
+
+    private async listDeviceFiles(directory: string, prefix = ''): Promise<DeviceEntry[]> {
+        const entries: DeviceEntry[] = [];
+        const files = await this.batchFileManager.fetchDirectory(directory);
+        for (const file of files) {
+            const relativePath = `${prefix}${file.name}`;
+            if (file.isDirectory) {
+                entries.push(...await this.listDeviceFiles(file.uri, `${relativePath}/`));
+            } else {
+                entries.push({ relativePath, file });
+            }
+        }
+        return entries;
+    }
+
+    private listVaultFiles(vaultPath: string): VaultEntry[] {
+        const folder = this.app.vault.getAbstractFileByPath(vaultPath);
+        if (!(folder instanceof TFolder)) {
+            return [];
+        }
+
+        const entries: VaultEntry[] = [];
+        const walk = (current: TFolder) => {
+            for (const child of current.children) {
+                if (child instanceof TFolder) {
+                    walk(child);
+                } else if (child instanceof TFile) {
+                    entries.push({ relativePath: child.path.substring(vaultPath.length + 1), file: child });
+                }
+            }
+        };
+        walk(folder);
+        return entries;
+    }
+
+    private async download(deviceFile: SupernoteFile, targetPath: string, signal?: AbortSignal): Promise<void> {
+        const response = await fetch(`http://${this.settings.directConnectIP}:8089${deviceFile.uri}`, { signal });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+        const buffer = await response.arrayBuffer();
+
+        let file = this.app.vault.getFileByPath(targetPath);
+        if (file) {
+            await this.app.vault.modifyBinary(file, buffer);
+        } else {
+            await this.ensureFolder(targetPath.substring(0, targetPath.lastIndexOf('/')));
+            file = await this.app.vault.createBinary(targetPath, buffer);
+        }
+
+        this.recordEntry(deviceFile, file);
+    }
+
+    private async upload(file: TFile, devicePath: string, relativePath: string): Promise<void> {
+        const slash = relativePath.lastIndexOf('/');
+        const directory = slash === -1 ? devicePath : `${devicePath}${relativePath.substring(0, slash)}/`;
+        const content = await this.app.vault.readBinary(file);
+        await uploadToSupernote(this.settings.directConnectIP, directory, file.name, content, 'application/octet-stream');
+    }
+
+    private recordEntry(deviceFile: SupernoteFile, file: TFile): void {
+        this.getManifest().entries[file.path] = {
+            deviceUri: deviceFile.uri,
+            vaultPath: file.path,
+            date: deviceFile.date,
+            size: deviceFile.size,
+            vaultMtime: file.stat.mtime,
+        };
+    }
+
+    private async ensureFolder(path: string): Promise<void> {
+        if (!path || this.app.vault.getAbstractFileByPath(path)) return;
+        await this.ensureFolder(path.substring(0, path.lastIndexOf('/')));
+        await this.app.vault.createFolder(path);
+    }
+
+    private throwIfAborted(signal?: AbortSignal): void {
+        if (signal?.aborted) {
+            throw new Error('Sync cancelled');
+        }
+    }
+
+    private normalizeDevicePath(path: string): string {
+        const trimmed = path.trim().replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+        return trimmed ? `/${trimmed}/` : '/';
+    }
+
+    private getManifest(): SyncManifest {
+        if (!this.manifest) {
+            this.manifest = { version: 1, entries: {} };
+        }
+        return this.manifest;
+    }
+
+    private async loadManifest(): Promise<void> {
+        if (this.manifest) return;
+        try {
+            if (await this.app.vault.adapter.exists(this.manifestPath)) {
+                this.manifest = JSON.parse(await this.app.vault.adapter.read(this.manifestPath));
+            }
+        } catch (error) {
+            console.error('Failed to read sync manifest, starting fresh:', error);
+        }
+        this.getManifest();
+    }
+
+    private async saveManifest(): Promise<void> {
+        await this.app.vault.adapter.write(this.manifestPath, JSON.stringify(this.getManifest(), null, 2));
+    }
+}
+
+/**
+ * Summarize a sync result as a user-facing notice.
+ */
+export function showSyncResult(result: SyncResult): void {
+    const parts = [
+        `${result.downloaded.length} downloaded`,
+        `${result.uploaded.length} uploaded`,
+    ];
+    if (result.conflicts.length > 0) {
+        parts.push(`${result.conflicts.length} conflict${result.conflicts.length > 1 ? 's' : ''}`);
+    }
+    if (result.failed.length > 0) {
+        parts.push(`${result.failed.length} failed`);
+        console.error('Failed sync operations:', result.failed);
+    }
+    new Notice(`Supernote sync: ${parts.join(', ')}`);
+}
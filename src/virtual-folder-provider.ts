@@ -1,6 +1,6 @@
 import { App, TFile, Notice } from 'obsidian';
 import { SupernoteFile, BatchFileManager } from './batch-file-manager';
-import { BatchDownloader } from './batch-downloader';
+import { BatchDownloader, BatchPdfOrderModal } from './batch-downloader';
 
 export interface VirtualSupernoteFile extends TFile {
     supernoteFile: SupernoteFile;
@@ -19,6 +19,7 @@ export class VirtualFolderProvider {
     private isManualRefresh = false;
     private fileTreeCache: Map<string, SupernoteFile[]> = new Map();
     private batchDownloader: BatchDownloader;
+    private connectedListeners: (() => void | Promise<void>)[] = [];
 
     // Selection state
     private selectedFiles: Set<string> = new Set(); // Track selected file paths
@@ -796,6 +797,20 @@ export class VirtualFolderProvider {
                         .setIcon('image')
                         .onClick(() => this.batchConvertFiles(selectedFiles, 'png'));
                 });
+
+                menu.addItem((item: any) => {
+                    item.setTitle(`✒️ Convert to SVG`)
+                        .setIcon('pen-tool')
+                        .onClick(() => this.batchConvertFiles(selectedFiles, 'svg'));
+                });
+
+                if (selectedCount > 1) {
+                    menu.addItem((item: any) => {
+                        item.setTitle(`📚 Combine into one PDF`)
+                            .setIcon('files')
+                            .onClick(() => this.combineIntoPDF(selectedFiles));
+                    });
+                }
             }
 
             menu.addItem((item: any) => {
@@ -862,7 +877,7 @@ export class VirtualFolderProvider {
     /**
      * Convert file to specified format
      */
-    private async convertFile(file: SupernoteFile, format: 'pdf' | 'png'): Promise<void> {
+    private async convertFile(file: SupernoteFile, format: 'pdf' | 'png' | 'svg'): Promise<void> {
         try {
             await this.batchDownloader.convertAndDownload([file], format);
         } catch (error) {
@@ -886,20 +901,38 @@ export class VirtualFolderProvider {
      */
     private monitorConnectionStatus(): void {
         // Check connection status periodically
-        setInterval(async () => {
+        this.connectionCheckInterval = setInterval(async () => {
+            const reachable = await this.batchFileManager.checkConnection();
+            if (reachable && !this.isConnected) {
+                this.isConnected = true;
+                this.connectionState = 'connected';
+                this.lastError = null;
+                this.updateConnectionStatus();
+                this.notifyConnected();
+            } else if (!reachable && this.isConnected) {
+                this.isConnected = false;
+                this.connectionState = 'disconnected';
+                this.updateConnectionStatus();
+            }
+        }, 30000); // Check every 30 seconds
+    }
+
+    /**
+     * Register a callback that runs whenever the device goes from
+     * unreachable to reachable.
+     */
+    onConnected(callback: () => void | Promise<void>): void {
+        this.connectedListeners.push(callback);
+    }
+
+    private notifyConnected(): void {
+        for (const listener of this.connectedListeners) {
             try {
-                await this.batchFileManager.loadFiles();
-                if (!this.isConnected) {
-                    this.isConnected = true;
-                    this.updateConnectionStatus();
-                }
+                Promise.resolve(listener()).catch(error => console.error('Connection listener failed:', error));
             } catch (error) {
-                if (this.isConnected) {
-                    this.isConnected = false;
-                    this.updateConnectionStatus();
-                }
+                console.error('Connection listener failed:', error);
             }
-        }, 30000); // Check every 30 seconds
+        }
     }
 
     /**
@@ -944,6 +977,13 @@ export class VirtualFolderProvider {
      * Clean up the virtual folder provider
      */
     cleanup(): void {
+        // Stop polling the device
+        if (this.connectionCheckInterval) {
+            clearInterval(this.connectionCheckInterval);
+            this.connectionCheckInterval = null;
+        }
+        this.connectedListeners = [];
+
         // Clear selections
         this.clearSelection();
 
@@ -1338,7 +1378,7 @@ export class VirtualFolderProvider {
     /**
      * Batch convert files to specified format
      */
-    private async batchConvertFiles(files: SupernoteFile[], format: 'pdf' | 'png'): Promise<void> {
+    private async batchConvertFiles(files: SupernoteFile[], format: 'pdf' | 'png' | 'svg'): Promise<void> {
         try {
             await this.batchDownloader.convertAndDownload(files, format);
             this.clearSelection();
@@ -1347,6 +1387,20 @@ export class VirtualFolderProvider {
         }
     }
 
+    /**
+     * Combine files into a single PDF after asking for the page order
+     */
+    private combineIntoPDF(files: SupernoteFile[]): void {
+        new BatchPdfOrderModal(this.app, async (order) => {
+            try {
+                await this.batchDownloader.createBatchPDF(files, order);
+                this.clearSelection();
+            } catch (error) {
+                new Notice(`❌ Combined PDF failed: ${error.message}`);
+            }
+        }).open();
+    }
+
     /**
      * Batch download files
      */
@@ -1,15 +1,25 @@
-import { WorkerPool, ImageConverter } from './main';
-
-// Mock the worker
-const mockWorker = {
-    onmessage: null as any,
-    onerror: null as any,
-    postMessage: jest.fn(),
-    terminate: jest.fn()
-};
-
-// Mock the Worker constructor
-global.Worker = jest.fn(() => mockWorker) as any;
+import { WorkerPool, ImageConverter, PageRenderError, RenderPriority, renderOptionsKey } from './main';
+
+interface MockWorker {
+    onmessage: any;
+    onerror: any;
+    postMessage: jest.Mock;
+    terminate: jest.Mock;
+}
+
+// Every new Worker() gets its own mock so jobs on different workers can be told apart
+let mockWorkers: MockWorker[] = [];
+
+global.Worker = jest.fn(() => {
+    const worker: MockWorker = {
+        onmessage: null,
+        onerror: null,
+        postMessage: jest.fn(),
+        terminate: jest.fn()
+    };
+    mockWorkers.push(worker);
+    return worker;
+}) as any;
 
 // Mock SupernoteX
 const mockSupernoteX = {
@@ -22,216 +32,264 @@ const mockSupernoteX = {
     pageHeight: 600
 };
 
+function lastMessage(worker: MockWorker) {
+    const calls = worker.postMessage.mock.calls;
+    return calls[calls.length - 1][0];
+}
+
+// Stand-ins for the encoded pages a worker sends back
+const PAGE1 = new Uint8Array([1]).buffer;
+const PAGE2 = new Uint8Array([2]).buffer;
+const PAGE3 = new Uint8Array([3]).buffer;
+
+function respond(worker: MockWorker, image: ArrayBuffer) {
+    const { requestId, pageNumber } = lastMessage(worker);
+    worker.onmessage({ data: { type: 'page', requestId, pageNumber, image } });
+}
+
 describe('Worker Improvements', () => {
     beforeEach(() => {
         jest.clearAllMocks();
-        mockWorker.onmessage = null;
-        mockWorker.onerror = null;
+        mockWorkers = [];
     });
 
-    describe('WorkerPool with transferable objects', () => {
-        it('should use transferable objects for better performance', async () => {
+    describe('WorkerPool job protocol', () => {
+        it('should tag each page job with a request id', async () => {
             const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2];
-
-            // Mock successful response
-            const mockResponse = {
-                data: {
-                    images: ['data:image/png;base64,test1', 'data:image/png;base64,test2']
-                }
-            };
-
-            // Set up the worker to respond
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    mockWorker.onmessage(mockResponse);
-                }
-            }, 0);
-
-            const result = await workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer);
-
-            // Verify transferable objects were used
-            expect(mockWorker.postMessage).toHaveBeenCalledWith(
-                expect.objectContaining({
-                    type: 'convert',
-                    noteBuffer: originalBuffer.buffer,
-                    pageNumbers: [1, 2]
-                }),
-                [originalBuffer.buffer] // Transfer list should include the buffer
-            );
 
-            expect(result).toEqual(['data:image/png;base64,test1', 'data:image/png;base64,test2']);
+            const result = workerPool.renderPage(originalBuffer, 2);
+            const message = lastMessage(mockWorkers[0]);
+
+            expect(message).toEqual(expect.objectContaining({ type: 'convert', pageNumber: 2, requestId: expect.any(Number) }));
+            respond(mockWorkers[0], PAGE2);
+            await expect(result).resolves.toBe(PAGE2);
         });
 
-        it('should handle worker errors gracefully', async () => {
+        it('should build SVGs in the worker', async () => {
             const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2];
-
-            // Mock error response
-            const mockErrorResponse = {
-                data: {
-                    images: [],
-                    error: 'Conversion failed'
-                }
-            };
-
-            // Set up the worker to respond with error
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    mockWorker.onmessage(mockErrorResponse);
-                }
-            }, 0);
 
-            await expect(
-                workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer)
-            ).rejects.toThrow('Conversion failed');
+            const result = workerPool.renderSvg(originalBuffer, 1);
+
+            expect(lastMessage(mockWorkers[0])).toEqual(expect.objectContaining({ type: 'svg', pageNumber: 1 }));
+            respond(mockWorkers[0], new TextEncoder().encode('<svg/>').buffer);
+            await expect(result).resolves.toBe('<svg/>');
         });
 
-        it('should handle worker exceptions', async () => {
+        it('should ignore responses for other requests', async () => {
             const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2];
+            const onPage = jest.fn();
 
-            // Set up the worker to throw an error
-            setTimeout(() => {
-                if (mockWorker.onerror) {
-                    mockWorker.onerror(new Error('Worker crashed'));
-                }
-            }, 0);
+            const result = workerPool.renderPage(originalBuffer, 1, { onPage });
+            const { requestId } = lastMessage(mockWorkers[0]);
+            mockWorkers[0].onmessage({ data: { type: 'page', requestId: requestId + 100, pageNumber: 1, image: new ArrayBuffer(1) } });
 
-            await expect(
-                workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer)
-            ).rejects.toThrow('Worker crashed');
+            expect(onPage).not.toHaveBeenCalled();
+            respond(mockWorkers[0], PAGE1);
+            await expect(result).resolves.toBe(PAGE1);
+            expect(onPage).toHaveBeenCalledWith(1, PAGE1);
         });
-    });
 
-    describe('ImageConverter improvements', () => {
-        it('should process pages in parallel with multiple workers', async () => {
-            const converter = new ImageConverter(2);
+        it('should send the note buffer only once per worker', async () => {
+            const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2, 3, 4];
 
-            // Mock responses for multiple workers
-            let callCount = 0;
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    const response = {
-                        data: {
-                            images: [`data:image/png;base64,test${callCount + 1}`, `data:image/png;base64,test${callCount + 2}`]
-                        }
-                    };
-                    mockWorker.onmessage(response);
-                    callCount++;
-                }
-            }, 0);
+            const first = workerPool.renderPage(originalBuffer, 1);
+            expect(mockWorkers[0].postMessage).toHaveBeenLastCalledWith(
+                expect.objectContaining({ noteBuffer: expect.any(ArrayBuffer) }),
+                [expect.any(ArrayBuffer)]
+            );
+            respond(mockWorkers[0], PAGE1);
+            await first;
+
+            const second = workerPool.renderPage(originalBuffer, 2);
+            expect(lastMessage(mockWorkers[0]).noteBuffer).toBeUndefined();
+            respond(mockWorkers[0], PAGE2);
+            await expect(second).resolves.toBe(PAGE2);
+        });
+
+        it('should reject pages the worker reports as failed', async () => {
+            const workerPool = new WorkerPool(1);
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
 
-            const result = await converter.convertToImages(mockSupernoteX as any, pageNumbers, originalBuffer);
+            const result = workerPool.renderPage(originalBuffer, 1);
+            const { requestId } = lastMessage(mockWorkers[0]);
+            mockWorkers[0].onmessage({
+                data: { type: 'error', requestId, pageNumber: 1, error: { code: 'invalid-note', message: 'Conversion failed' } }
+            });
 
-            // Should have called postMessage multiple times (once per worker)
-            expect(mockWorker.postMessage).toHaveBeenCalledTimes(2);
-            expect(result).toHaveLength(4);
+            await expect(result).rejects.toThrow('Conversion failed');
+            await expect(result).rejects.toBeInstanceOf(PageRenderError);
+            await expect(result).rejects.toMatchObject({ pageNumber: 1, code: 'invalid-note' });
         });
 
-        it('should require original buffer for conversion', async () => {
-            const converter = new ImageConverter();
+        it('should report progress while a page renders', async () => {
+            const workerPool = new WorkerPool(1);
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+            const onProgress = jest.fn();
 
-            await expect(
-                converter.convertToImages(mockSupernoteX as any, [1, 2])
-            ).rejects.toThrow('Original buffer is required for image conversion');
+            const result = workerPool.renderPage(originalBuffer, 1, { onProgress });
+            const { requestId } = lastMessage(mockWorkers[0]);
+            mockWorkers[0].onmessage({ data: { type: 'progress', requestId, pageNumber: 1, stage: 'parsing' } });
+            mockWorkers[0].onmessage({ data: { type: 'progress', requestId, pageNumber: 1, stage: 'rendering' } });
+            respond(mockWorkers[0], PAGE1);
+
+            await expect(result).resolves.toBe(PAGE1);
+            expect(onProgress.mock.calls).toEqual([[1, 'parsing'], [1, 'rendering']]);
         });
 
-        it('should clean up workers on terminate', () => {
-            const converter = new ImageConverter();
-            converter.terminate();
+        it('should pass render options to the worker', () => {
+            const workerPool = new WorkerPool(1);
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+
+            workerPool.renderPage(originalBuffer, 1, { render: { layers: ['MAINLAYER'], includeBackground: false } });
 
-            expect(mockWorker.terminate).toHaveBeenCalled();
+            expect(lastMessage(mockWorkers[0]).render).toEqual({ layers: ['MAINLAYER'], includeBackground: false });
+        });
+
+        it('should restart a crashed worker and reject its job', async () => {
+            const workerPool = new WorkerPool(1);
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+
+            const result = workerPool.renderPage(originalBuffer, 1);
+            mockWorkers[0].onerror({ message: 'Worker crashed' });
+
+            await expect(result).rejects.toThrow('Worker crashed');
+            expect(mockWorkers[0].terminate).toHaveBeenCalled();
+            expect(mockWorkers).toHaveLength(2);
         });
     });
 
-    describe('Memory management', () => {
-        it('should not hold references to transferred buffers', async () => {
+    describe('Scheduling', () => {
+        it('should run higher priority jobs first', async () => {
             const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2];
-
-            // Mock successful response
-            const mockResponse = {
-                data: {
-                    images: ['data:image/png;base64,test1', 'data:image/png;base64,test2']
-                }
-            };
-
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    mockWorker.onmessage(mockResponse);
-                }
-            }, 0);
-
-            await workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer);
-
-            // The buffer should be transferred, not copied
-            expect(mockWorker.postMessage).toHaveBeenCalledWith(
-                expect.any(Object),
-                [originalBuffer.buffer] // Transfer list
-            );
+
+            const running = workerPool.renderPage(originalBuffer, 1, { priority: RenderPriority.Background });
+            const exportPage = workerPool.renderPage(originalBuffer, 2, { priority: RenderPriority.Background });
+            const visiblePage = workerPool.renderPage(originalBuffer, 3, { priority: RenderPriority.Visible });
+
+            respond(mockWorkers[0], PAGE1);
+            await running;
+
+            expect(lastMessage(mockWorkers[0]).pageNumber).toBe(3);
+            respond(mockWorkers[0], PAGE3);
+            await expect(visiblePage).resolves.toBe(PAGE3);
+
+            respond(mockWorkers[0], PAGE2);
+            await expect(exportPage).resolves.toBe(PAGE2);
         });
 
-        it('should handle large files without memory issues', async () => {
+        it('should drop queued jobs when their signal aborts', async () => {
             const workerPool = new WorkerPool(1);
-            // Create a larger buffer to test memory handling
-            const originalBuffer = new Uint8Array(1024 * 1024); // 1MB
-            const pageNumbers = [1];
-
-            // Mock successful response
-            const mockResponse = {
-                data: {
-                    images: ['data:image/png;base64,largeimage']
-                }
-            };
-
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    mockWorker.onmessage(mockResponse);
-                }
-            }, 0);
-
-            const result = await workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer);
-
-            expect(result).toEqual(['data:image/png;base64,largeimage']);
-            expect(mockWorker.postMessage).toHaveBeenCalledWith(
-                expect.objectContaining({
-                    noteBuffer: originalBuffer.buffer
-                }),
-                [originalBuffer.buffer]
-            );
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+            const controller = new AbortController();
+
+            const running = workerPool.renderPage(originalBuffer, 1);
+            const queued = workerPool.renderPage(originalBuffer, 2, { signal: controller.signal });
+            controller.abort();
+
+            await expect(queued).rejects.toThrow('Render cancelled');
+            respond(mockWorkers[0], PAGE1);
+            await running;
+
+            expect(mockWorkers[0].postMessage).toHaveBeenCalledTimes(1);
+        });
+
+        it('should spread pages across workers', () => {
+            const workerPool = new WorkerPool(2);
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+
+            workerPool.renderPage(originalBuffer, 1);
+            workerPool.renderPage(originalBuffer, 2);
+
+            expect(mockWorkers[0].postMessage).toHaveBeenCalledTimes(1);
+            expect(mockWorkers[1].postMessage).toHaveBeenCalledTimes(1);
         });
-    });
 
-    describe('Error recovery', () => {
-        it('should continue processing other pages if one fails', async () => {
+        it('should cancel pending jobs and stop workers on terminate', async () => {
             const workerPool = new WorkerPool(1);
             const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
-            const pageNumbers = [1, 2, 3];
 
-            // Mock partial success response
-            const mockResponse = {
-                data: {
-                    images: ['data:image/png;base64,success1', 'data:image/png;base64,success2']
-                }
-            };
+            const running = workerPool.renderPage(originalBuffer, 1);
+            const queued = workerPool.renderPage(originalBuffer, 2);
+            workerPool.terminate();
+
+            await expect(running).rejects.toThrow('Render cancelled');
+            await expect(queued).rejects.toThrow('Render cancelled');
+            expect(mockWorkers[0].terminate).toHaveBeenCalled();
+        });
+    });
+
+    describe('ImageConverter', () => {
+        it('should stream pages and return them in page order', async () => {
+            const converter = new ImageConverter(new WorkerPool(2));
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+            const onPage = jest.fn();
+
+            const result = converter.convertToImages(mockSupernoteX as any, [1, 2], originalBuffer, { onPage });
+            await new Promise(resolve => setTimeout(resolve, 0));
 
-            setTimeout(() => {
-                if (mockWorker.onmessage) {
-                    mockWorker.onmessage(mockResponse);
-                }
-            }, 0);
+            respond(mockWorkers[1], PAGE2);
+            respond(mockWorkers[0], PAGE1);
 
-            const result = await workerPool.processPages(mockSupernoteX as any, pageNumbers, originalBuffer);
+            await expect(result).resolves.toEqual([PAGE1, PAGE2]);
+            expect(onPage.mock.calls).toEqual([[2, PAGE2], [1, PAGE1]]);
+        });
+
+        it('should keep the slot of pages that fail', async () => {
+            const converter = new ImageConverter(new WorkerPool(1));
+            const originalBuffer = new Uint8Array([1, 2, 3, 4, 5]);
+            const onPageError = jest.fn();
+
+            const result = converter.convertToImages(mockSupernoteX as any, [1, 2], originalBuffer, { onPageError });
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            const { requestId } = lastMessage(mockWorkers[0]);
+            mockWorkers[0].onmessage({
+                data: { type: 'error', requestId, pageNumber: 1, error: { code: 'render-failed', message: 'Bad page' } }
+            });
+            await new Promise(resolve => setTimeout(resolve, 0));
+            respond(mockWorkers[0], PAGE2);
+
+            await expect(result).resolves.toEqual([null, PAGE2]);
+            expect(onPageError).toHaveBeenCalledWith(expect.objectContaining({ pageNumber: 1, code: 'render-failed' }));
+        });
+
+        it('should require original buffer for conversion', async () => {
+            const converter = new ImageConverter(new WorkerPool(1));
+
+            await expect(
+                converter.convertToImages(mockSupernoteX as any, [1, 2])
+            ).rejects.toThrow('Original buffer is required for image conversion');
+        });
+    });
+
+    describe('renderOptionsKey', () => {
+        it('should share the default key for full renders', () => {
+            expect(renderOptionsKey()).toBe('default');
+            expect(renderOptionsKey({ includeBackground: true })).toBe('default');
+        });
+
+        it('should not depend on layer order', () => {
+            expect(renderOptionsKey({ layers: ['LAYER1', 'MAINLAYER'], includeBackground: false }))
+                .toBe(renderOptionsKey({ layers: ['MAINLAYER', 'LAYER1'], includeBackground: false }));
+        });
+
+        it('should tell ink palettes apart', () => {
+            const inkColors = { black: '#000000', darkGray: '#a9a9a9', gray: '#808080', white: '#ffffff' };
+
+            expect(renderOptionsKey({ inkColors })).not.toBe('default');
+            expect(renderOptionsKey({ inkColors })).not.toBe(renderOptionsKey({ inkColors: { ...inkColors, black: '#eeeeee' } }));
+            expect(renderOptionsKey({ inkColors, transparentPaper: true })).not.toBe(renderOptionsKey({ inkColors }));
+        });
 
-            // Should return the successful images
-            expect(result).toEqual(['data:image/png;base64,success1', 'data:image/png;base64,success2']);
+        it('should only key output options that change the encoding', () => {
+            expect(renderOptionsKey({ output: { scale: 1, format: 'png', quality: 50, bitDepth: 8 } })).toBe('default');
+            expect(renderOptionsKey({ output: { scale: 0.5, format: 'jpeg', quality: 75 } }))
+                .not.toBe(renderOptionsKey({ output: { scale: 0.5, format: 'jpeg', quality: 90 } }));
         });
     });
-}); 
\ No newline at end of file
+});
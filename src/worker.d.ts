@@ -1,4 +1,15 @@
 declare module 'myworker.worker' {
     const WorkerFactory: new () => Worker;
     export default WorkerFactory;
-}
\ No newline at end of file
+}
+
+// OffscreenCanvas is available in workers but missing from the DOM typings of
+// our TypeScript version. Only the parts the worker uses are declared.
+interface OffscreenCanvas {
+    getContext(contextId: '2d'): CanvasRenderingContext2D | null;
+    convertToBlob(options?: { type?: string; quality?: number }): Promise<Blob>;
+}
+
+declare var OffscreenCanvas: {
+    new (width: number, height: number): OffscreenCanvas;
+};